@@ -0,0 +1,19 @@
+import React from 'react';
+import { SafeAreaView, StyleSheet } from 'react-native';
+import { CallHistoryScreen } from '@/features/calls/components/CallHistoryScreen';
+import { AppColors } from '@/constants/theme';
+
+export default function HistoryTabScreen() {
+  return (
+    <SafeAreaView style={styles.container}>
+      <CallHistoryScreen />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.backgroundLight,
+  },
+});
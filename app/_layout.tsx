@@ -8,6 +8,9 @@ import 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { MedicationProvider } from '@/contexts/MedicationContext';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { usePendingMedicationActions } from '@/features/medications/hooks/usePendingMedicationActions';
+import { useAlarmNavigation } from '@/features/notifications/hooks/useAlarmNavigation';
+import { useAlarmSync } from '@/features/notifications/hooks/useAlarmSync';
 import { requestNotificationPermissions, requestNotifeePermissions } from '@/lib/notifications';
 import { logger } from '@/lib/logger';
 import PermissionBanner from '@/components/PermissionBanner';
@@ -31,6 +34,25 @@ function AuthGuard({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+/**
+ * Applies Take/Snooze presses queued while the app was closed.
+ * Rendered inside AuthGuard so actions are only processed for a signed-in user.
+ */
+function PendingActionsObserver() {
+  usePendingMedicationActions();
+  return null;
+}
+
+/**
+ * Opens the full-screen alarm when a medication notification fires or is tapped,
+ * and keeps the scheduled local alarms in step with the user's medications.
+ */
+function AlarmObserver() {
+  useAlarmNavigation();
+  useAlarmSync();
+  return null;
+}
+
 export const unstable_settings = {
   anchor: '(tabs)',
 };
@@ -73,6 +95,8 @@ export default function RootLayout() {
       <MedicationProvider>
         <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
           <AuthGuard>
+            <PendingActionsObserver />
+            <AlarmObserver />
             <Stack>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen 
@@ -83,6 +107,30 @@ export default function RootLayout() {
                 headerShown: false,
               }} 
             />
+            <Stack.Screen 
+              name="edit-medication" 
+              options={{ 
+                title: 'Edit Reminder',
+                presentation: 'card',
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="caregivers" 
+              options={{ 
+                title: 'Family & Caregivers',
+                presentation: 'card',
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="alarm" 
+              options={{ 
+                presentation: 'fullScreenModal',
+                headerShown: false,
+                gestureEnabled: false,
+              }} 
+            />
             <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
             </Stack>
             <PermissionBanner
@@ -14,55 +14,117 @@ import {
   View,
 } from 'react-native';
 import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useMedication } from '@/contexts/MedicationContext';
+import {
+  useAddMedicationForm,
+  type CourseEndType,
+  type RecurrenceType,
+} from '@/features/medications/hooks/useAddMedicationForm';
+import { isCountableUnit } from '@/features/medications/utils/dosage';
+import { isValidDate, isValidTime } from '@/features/medications/utils/time';
 import { logger } from '@/lib/logger';
+import type { DosageForm, DosageUnit } from '@/types';
 
-function isValidTime(value: string) {
-  const m = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
-  return Boolean(m);
-}
+const DOSAGE_UNIT_OPTIONS: { unit: DosageUnit; label: string }[] = [
+  { unit: 'mg', label: 'mg' },
+  { unit: 'ml', label: 'ml' },
+  { unit: 'IU', label: 'IU' },
+  { unit: 'tablet', label: 'tablets' },
+  { unit: 'puff', label: 'puffs' },
+];
+
+const DOSAGE_FORM_OPTIONS: { form: DosageForm; label: string }[] = [
+  { form: 'tablet', label: 'Tablet' },
+  { form: 'capsule', label: 'Capsule' },
+  { form: 'liquid', label: 'Liquid' },
+  { form: 'injection', label: 'Injection' },
+  { form: 'inhaler', label: 'Inhaler' },
+];
+
+const RECURRENCE_OPTIONS: { type: RecurrenceType; label: string }[] = [
+  { type: 'daily', label: 'Every day' },
+  { type: 'weekly', label: 'Some days' },
+  { type: 'interval', label: 'Every few days' },
+  { type: 'cyclic', label: 'On / off cycle' },
+  { type: 'monthly', label: 'Monthly' },
+];
 
+const WEEKDAY_OPTIONS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const COURSE_END_OPTIONS: { type: CourseEndType; label: string }[] = [
+  { type: 'ongoing', label: 'Ongoing' },
+  { type: 'days', label: 'For N days' },
+  { type: 'date', label: 'Until a date' },
+];
+
+/**
+ * Add medication screen
+ * Also serves the edit route: with a medicationId param the form is
+ * pre-populated from that medication and saving updates it in place.
+ */
 export default function AddMedicationScreen() {
-  const { addMedication } = useMedication();
-  const [name, setName] = useState('');
-  const [dosage, setDosage] = useState('');
-  const [frequency, setFrequency] = useState(1);
-  const [times, setTimes] = useState<string[]>(['08:00']);
+  const { medicationId } = useLocalSearchParams<{ medicationId?: string }>();
+  const { medications, addMedication, updateMedication } = useMedication();
+  const existing = useMemo(
+    () => (medicationId ? medications.filter((m) => m.medicationId === medicationId) : []),
+    [medicationId, medications]
+  );
+  const isEditing = existing.length > 0;
+  const {
+    name,
+    setName,
+    dosageAmount,
+    setDosageAmount,
+    dosageUnit,
+    setDosageUnit,
+    dosageForm,
+    setDosageForm,
+    frequency,
+    times,
+    recurrenceType,
+    setRecurrenceType,
+    weekdays,
+    toggleWeekday,
+    everyDays,
+    setEveryDays,
+    daysOn,
+    setDaysOn,
+    daysOff,
+    setDaysOff,
+    dayOfMonth,
+    setDayOfMonth,
+    startDate,
+    setStartDate,
+    courseEndType,
+    setCourseEndType,
+    courseDays,
+    setCourseDays,
+    endDate,
+    setEndDate,
+    taperEnabled,
+    setTaperEnabled,
+    taperSteps,
+    addTaperStep,
+    removeTaperStep,
+    updateTaperStep,
+    inventoryCount,
+    setInventoryCount,
+    unitsPerDose,
+    setUnitsPerDose,
+    refillThresholdDays,
+    setRefillThresholdDays,
+    refillInCall,
+    setRefillInCall,
+    canSave: isFormValid,
+    handleFrequencyChange,
+    handleTimeChange,
+    getFormData,
+  } = useAddMedicationForm(isEditing ? existing : undefined);
   const [saving, setSaving] = useState(false);
   const savingRef = useRef(false);
 
-  const canSave = useMemo(() => {
-    if (saving) return false;
-    const allTimesValid = times.every((t) => isValidTime(t.trim()));
-    return name.trim().length > 0 && dosage.trim().length > 0 && allTimesValid && times.length > 0;
-  }, [name, dosage, times, saving]);
-
-  const handleFrequencyChange = (delta: number) => {
-    const newFrequency = Math.max(1, Math.min(5, frequency + delta));
-    setFrequency(newFrequency);
-    
-    // Adjust times array
-    if (newFrequency > times.length) {
-      // Add new time slots with smart defaults
-      const newTimes = [...times];
-      while (newTimes.length < newFrequency) {
-        // Suggest times spread throughout the day
-        const defaultTimes = ['08:00', '13:00', '18:00', '21:00', '23:00'];
-        newTimes.push(defaultTimes[newTimes.length] || '12:00');
-      }
-      setTimes(newTimes);
-    } else if (newFrequency < times.length) {
-      // Remove excess times
-      setTimes(times.slice(0, newFrequency));
-    }
-  };
-
-  const handleTimeChange = (index: number, value: string) => {
-    const newTimes = [...times];
-    newTimes[index] = value;
-    setTimes(newTimes);
-  };
+  const canSave = isFormValid && !saving;
 
   const handleSave = async () => {
     if (!canSave) return;
@@ -75,11 +137,11 @@ export default function AddMedicationScreen() {
     try {
       // This will create one database record for each time in the array
       // NOTE: Notifications/calls are now handled server-side by schedule-batches cron job
-      await addMedication({
-        name: name.trim(),
-        dosage: dosage.trim(),
-        times: times.map((t) => t.trim()),
-      });
+      if (isEditing && medicationId) {
+        await updateMedication(medicationId, getFormData());
+      } else {
+        await addMedication(getFormData());
+      }
       
       router.back();
     } catch (error: any) {
@@ -135,7 +197,7 @@ export default function AddMedicationScreen() {
             >
               <FontAwesome6 name="arrow-left" size={18} color="#0F172A" />
             </Pressable>
-            <Text style={styles.title}>New Reminder</Text>
+            <Text style={styles.title}>{isEditing ? 'Edit Reminder' : 'New Reminder'}</Text>
           </View>
 
           <View style={styles.form}>
@@ -155,15 +217,113 @@ export default function AddMedicationScreen() {
 
             <View style={styles.field}>
               <Text style={styles.label}>Dosage</Text>
-              <TextInput
-                value={dosage}
-                onChangeText={setDosage}
-                placeholder="e.g. 1 Tablet"
-                placeholderTextColor="#64748b"
-                style={styles.input}
-                returnKeyType="next"
-                accessibilityLabel="Dosage input"
-              />
+              <View style={styles.inlineRow}>
+                <TextInput
+                  value={dosageAmount}
+                  onChangeText={setDosageAmount}
+                  placeholder="e.g. 1"
+                  placeholderTextColor="#64748b"
+                  style={[styles.input, styles.numberInput]}
+                  keyboardType="decimal-pad"
+                  maxLength={7}
+                  accessibilityLabel="Dosage amount"
+                />
+                <View style={[styles.chipRow, styles.unitChipRow]}>
+                  {DOSAGE_UNIT_OPTIONS.map((option) => (
+                    <Pressable
+                      key={option.unit}
+                      onPress={() => setDosageUnit(option.unit)}
+                      style={[styles.chip, dosageUnit === option.unit && styles.chipActive]}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: dosageUnit === option.unit }}
+                    >
+                      <Text style={[styles.chipText, dosageUnit === option.unit && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Form (optional)</Text>
+              <View style={styles.chipRow}>
+                {DOSAGE_FORM_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.form}
+                    onPress={() => setDosageForm(dosageForm === option.form ? null : option.form)}
+                    style={[styles.chip, dosageForm === option.form && styles.chipActive]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: dosageForm === option.form }}
+                  >
+                    <Text style={[styles.chipText, dosageForm === option.form && styles.chipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.field}>
+              <Pressable
+                onPress={() => setTaperEnabled(!taperEnabled)}
+                style={[styles.chip, styles.toggleChip, taperEnabled && styles.chipActive]}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: taperEnabled }}
+              >
+                <Text style={[styles.chipText, taperEnabled && styles.chipTextActive]}>
+                  {taperEnabled ? 'Dosage changes over time ✓' : 'Dosage changes over time?'}
+                </Text>
+              </Pressable>
+
+              {taperEnabled ? (
+                <>
+                  {taperSteps.map((step, index) => (
+                    <View key={index} style={styles.inlineRow}>
+                      <TextInput
+                        value={step.amount}
+                        onChangeText={(value) => updateTaperStep(index, 'amount', value)}
+                        placeholder={index === 0 ? 'e.g. 40' : 'then'}
+                        placeholderTextColor="#64748b"
+                        style={[styles.input, styles.numberInput]}
+                        keyboardType="decimal-pad"
+                        maxLength={7}
+                        accessibilityLabel={`Step ${index + 1} dosage amount`}
+                      />
+                      <Text style={styles.inlineText}>{dosageUnit} for</Text>
+                      <TextInput
+                        value={step.days}
+                        onChangeText={(value) => updateTaperStep(index, 'days', value)}
+                        style={[styles.input, styles.numberInput]}
+                        keyboardType="number-pad"
+                        maxLength={3}
+                        accessibilityLabel={`Step ${index + 1} number of days`}
+                      />
+                      <Text style={styles.inlineText}>days</Text>
+                      {taperSteps.length > 1 ? (
+                        <Pressable
+                          onPress={() => removeTaperStep(index)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Remove step ${index + 1}`}
+                        >
+                          <FontAwesome6 name="xmark" size={18} color="#be123c" />
+                        </Pressable>
+                      ) : null}
+                    </View>
+                  ))}
+                  <Pressable
+                    onPress={addTaperStep}
+                    style={[styles.chip, styles.toggleChip]}
+                    accessibilityRole="button"
+                    accessibilityLabel="Add taper step"
+                  >
+                    <Text style={styles.chipText}>+ Add step</Text>
+                  </Pressable>
+                  <Text style={styles.hint}>Starts on the start date. After the last step, the dosage above applies.</Text>
+                </>
+              ) : null}
             </View>
 
             <View style={styles.field}>
@@ -203,6 +363,225 @@ export default function AddMedicationScreen() {
               </View>
             </View>
 
+            <View style={styles.field}>
+              <Text style={styles.label}>How often?</Text>
+              <View style={styles.chipRow}>
+                {RECURRENCE_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.type}
+                    onPress={() => setRecurrenceType(option.type)}
+                    style={[styles.chip, recurrenceType === option.type && styles.chipActive]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: recurrenceType === option.type }}
+                  >
+                    <Text style={[styles.chipText, recurrenceType === option.type && styles.chipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              {recurrenceType === 'weekly' ? (
+                <View style={styles.weekdayRow}>
+                  {WEEKDAY_OPTIONS.map((label, day) => (
+                    <Pressable
+                      key={day}
+                      onPress={() => toggleWeekday(day)}
+                      style={[styles.weekdayButton, weekdays.includes(day) && styles.chipActive]}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: weekdays.includes(day) }}
+                    >
+                      <Text style={[styles.chipText, weekdays.includes(day) && styles.chipTextActive]}>
+                        {label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              ) : null}
+
+              {recurrenceType === 'interval' ? (
+                <View style={styles.inlineRow}>
+                  <Text style={styles.inlineText}>Every</Text>
+                  <TextInput
+                    value={everyDays}
+                    onChangeText={setEveryDays}
+                    style={[styles.input, styles.numberInput]}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                    accessibilityLabel="Number of days between doses"
+                  />
+                  <Text style={styles.inlineText}>days</Text>
+                </View>
+              ) : null}
+
+              {recurrenceType === 'cyclic' ? (
+                <View style={styles.inlineRow}>
+                  <TextInput
+                    value={daysOn}
+                    onChangeText={setDaysOn}
+                    style={[styles.input, styles.numberInput]}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                    accessibilityLabel="Days on"
+                  />
+                  <Text style={styles.inlineText}>days on,</Text>
+                  <TextInput
+                    value={daysOff}
+                    onChangeText={setDaysOff}
+                    style={[styles.input, styles.numberInput]}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                    accessibilityLabel="Days off"
+                  />
+                  <Text style={styles.inlineText}>off</Text>
+                </View>
+              ) : null}
+
+              {recurrenceType === 'monthly' ? (
+                <View style={styles.inlineRow}>
+                  <Text style={styles.inlineText}>On day</Text>
+                  <TextInput
+                    value={dayOfMonth}
+                    onChangeText={setDayOfMonth}
+                    style={[styles.input, styles.numberInput]}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                    accessibilityLabel="Day of the month"
+                  />
+                </View>
+              ) : null}
+
+              {recurrenceType === 'interval' || recurrenceType === 'cyclic' ? (
+                <Text style={styles.hint}>Counting starts on the start date (today if blank)</Text>
+              ) : null}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>How long?</Text>
+              <View style={styles.chipRow}>
+                {COURSE_END_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.type}
+                    onPress={() => setCourseEndType(option.type)}
+                    style={[styles.chip, courseEndType === option.type && styles.chipActive]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: courseEndType === option.type }}
+                  >
+                    <Text style={[styles.chipText, courseEndType === option.type && styles.chipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              {courseEndType === 'days' ? (
+                <View style={styles.inlineRow}>
+                  <Text style={styles.inlineText}>For</Text>
+                  <TextInput
+                    value={courseDays}
+                    onChangeText={setCourseDays}
+                    style={[styles.input, styles.numberInput]}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                    accessibilityLabel="Course length in days"
+                  />
+                  <Text style={styles.inlineText}>days</Text>
+                </View>
+              ) : null}
+
+              {courseEndType === 'date' ? (
+                <>
+                  <TextInput
+                    value={endDate}
+                    onChangeText={setEndDate}
+                    placeholder="Last day, e.g. 2025-01-31"
+                    placeholderTextColor="#64748b"
+                    style={styles.input}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={10}
+                    accessibilityLabel="Last day of the course, YYYY-MM-DD"
+                  />
+                  {!isValidDate(endDate.trim()) && endDate.trim().length > 0 ? (
+                    <Text style={styles.hint}>Use YYYY-MM-DD (e.g. 2025-01-31)</Text>
+                  ) : null}
+                </>
+              ) : null}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Start Date (optional)</Text>
+              <TextInput
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="Today"
+                placeholderTextColor="#64748b"
+                style={styles.input}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                accessibilityLabel="First day of the course, YYYY-MM-DD"
+              />
+              {!isValidDate(startDate.trim()) && startDate.trim().length > 0 ? (
+                <Text style={styles.hint}>Use YYYY-MM-DD (e.g. 2025-01-01)</Text>
+              ) : null}
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Pills on hand (optional)</Text>
+              <View style={styles.inlineRow}>
+                <TextInput
+                  value={inventoryCount}
+                  onChangeText={setInventoryCount}
+                  placeholder="e.g. 30"
+                  placeholderTextColor="#64748b"
+                  style={[styles.input, styles.numberInput]}
+                  keyboardType="number-pad"
+                  maxLength={6}
+                  accessibilityLabel="Number of pills on hand"
+                />
+                {isCountableUnit(dosageUnit) ? null : (
+                  <>
+                    <Text style={styles.inlineText}>using</Text>
+                    <TextInput
+                      value={unitsPerDose}
+                      onChangeText={setUnitsPerDose}
+                      style={[styles.input, styles.numberInput]}
+                      keyboardType="number-pad"
+                      maxLength={3}
+                      accessibilityLabel="Pills per dose"
+                    />
+                    <Text style={styles.inlineText}>per dose</Text>
+                  </>
+                )}
+              </View>
+
+              {inventoryCount.trim().length > 0 ? (
+                <>
+                  <View style={styles.inlineRow}>
+                    <Text style={styles.inlineText}>Remind me at</Text>
+                    <TextInput
+                      value={refillThresholdDays}
+                      onChangeText={setRefillThresholdDays}
+                      style={[styles.input, styles.numberInput]}
+                      keyboardType="number-pad"
+                      maxLength={3}
+                      accessibilityLabel="Refill reminder threshold in days"
+                    />
+                    <Text style={styles.inlineText}>days left</Text>
+                  </View>
+                  <Pressable
+                    onPress={() => setRefillInCall(!refillInCall)}
+                    style={[styles.chip, styles.toggleChip, refillInCall && styles.chipActive]}
+                    accessibilityRole="switch"
+                    accessibilityState={{ checked: refillInCall }}
+                  >
+                    <Text style={[styles.chipText, refillInCall && styles.chipTextActive]}>
+                      {refillInCall ? 'Also mention in phone call ✓' : 'Also mention in phone call?'}
+                    </Text>
+                  </Pressable>
+                </>
+              ) : null}
+            </View>
+
             {times.map((time, index) => (
               <View key={index} style={styles.field}>
                 <Text style={styles.label}>Dose {index + 1} Time</Text>
@@ -344,6 +723,67 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#475569',
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#CBD5E1',
+  },
+  chipActive: {
+    backgroundColor: '#0d9488',
+    borderColor: '#0d9488',
+  },
+  chipText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#0F172A',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  weekdayButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#CBD5E1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  inlineText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  numberInput: {
+    width: 72,
+    textAlign: 'center',
+  },
+  unitChipRow: {
+    flex: 1,
+  },
+  toggleChip: {
+    alignSelf: 'flex-start',
+  },
   frequencyRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,318 @@
+/**
+ * Full-screen alarm
+ * Opened from a medication notification (see useAlarmNavigation). Rings with
+ * the singleton alarmSoundManager, reads the batch out with expo-speech and
+ * records Taken / Snooze / Skip for every medication due at the same time.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, SafeAreaView, StyleSheet, Text, Vibration, View } from 'react-native';
+import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
+import * as Speech from 'expo-speech';
+import { router, useLocalSearchParams } from 'expo-router';
+import { DEFAULT_SNOOZE_MINUTES, VIBRATION_PATTERN } from '@/constants/notifications';
+import { ROUTES } from '@/constants/config';
+import { useMedication } from '@/contexts/MedicationContext';
+import { isDueToday } from '@/features/medications/utils/recurrence';
+import { getEffectiveDosage } from '@/features/medications/utils/taper';
+import { formatTo12Hour } from '@/features/medications/utils/time';
+import { cancelDisplayedAlarms } from '@/features/notifications/services/notificationsService';
+import { fetchSnoozeMinutes } from '@/features/profile/services/profileRepository';
+import { alarmSoundManager } from '@/lib/AlarmSoundManager';
+import { logger } from '@/lib/logger';
+
+type AlarmAction = 'taken' | 'snooze' | 'skip';
+
+// How many times the batch is read out (ALARM_SYSTEM.md: "announces twice")
+const ANNOUNCEMENT_REPEATS = 2;
+
+function closeAlarm() {
+  if (router.canGoBack()) {
+    router.back();
+  } else {
+    router.replace(ROUTES.TABS);
+  }
+}
+
+export default function AlarmScreen() {
+  const { medicationId } = useLocalSearchParams<{ medicationId?: string }>();
+  const { medications, loading, updateMedicationStatus, snoozeMedication, skipMedication, viewingPatient, viewPatient } =
+    useMedication();
+  const [snoozeMinutes, setSnoozeMinutes] = useState(DEFAULT_SNOOZE_MINUTES);
+  const [pendingAction, setPendingAction] = useState<AlarmAction | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // The notified schedule plus every other untaken dose due at the same time
+  const batch = useMemo(() => {
+    const notified = medications.find((m) => m.id === medicationId);
+    if (!notified) return [];
+
+    return medications.filter(
+      (m) => m.id === notified.id || (m.time === notified.time && !m.isTaken && isDueToday(m))
+    );
+  }, [medications, medicationId]);
+
+  // Snapshot of the batch when the alarm opened, so the list does not change
+  // underneath the user while actions are being recorded
+  const batchRef = useRef(batch);
+  if (batchRef.current.length === 0 && batch.length > 0) {
+    batchRef.current = batch;
+  }
+  const alarmBatch = batchRef.current;
+
+  // Alarms are for the user's own doses: leave a linked patient's view first
+  useEffect(() => {
+    if (viewingPatient) {
+      viewPatient(null).catch((error) => logger.error('Failed to switch back from patient view', error));
+    }
+  }, [viewingPatient, viewPatient]);
+
+  // Nothing to ring for: deleted, or already taken (e.g. from the notification)
+  useEffect(() => {
+    if (loading || pendingAction || viewingPatient) return;
+    if (alarmBatch.length === 0 || alarmBatch.every((m) => m.isTaken)) {
+      logger.debug('Alarm has nothing to ring for, closing', { medicationId });
+      closeAlarm();
+    }
+  }, [loading, alarmBatch, pendingAction, medicationId, viewingPatient]);
+
+  const batchKey = alarmBatch.map((m) => m.id).join(',');
+
+  // Ring, vibrate and announce while the screen is open
+  useEffect(() => {
+    const meds = batchRef.current;
+    if (meds.length === 0) return;
+
+    void cancelDisplayedAlarms(meds.map((m) => m.id));
+    void alarmSoundManager.start();
+    Vibration.vibrate(Array.from(VIBRATION_PATTERN), true);
+
+    const names = meds.map((m) => `${m.name}, ${getEffectiveDosage(m)}`).join('. ');
+    const announcement = `It is time to take your medicine. ${names}.`;
+    for (let i = 0; i < ANNOUNCEMENT_REPEATS; i++) {
+      Speech.speak(announcement, { rate: 0.9 });
+    }
+
+    const userId = meds[0].user_id;
+    if (userId) {
+      fetchSnoozeMinutes(userId)
+        .then(setSnoozeMinutes)
+        .catch((error) => logger.error('Failed to load snooze setting', error));
+    }
+
+    return () => {
+      void alarmSoundManager.stop();
+      void Speech.stop();
+      Vibration.cancel();
+    };
+  }, [batchKey]);
+
+  const handleAction = async (action: AlarmAction) => {
+    if (pendingAction) return;
+
+    setPendingAction(action);
+    setFailed(false);
+    await alarmSoundManager.stop();
+    void Speech.stop();
+    Vibration.cancel();
+
+    try {
+      const snoozedUntil = Date.now() + snoozeMinutes * 60 * 1000;
+      for (const med of alarmBatch) {
+        if (action === 'taken') {
+          if (!med.isTaken) await updateMedicationStatus(med.id, true);
+        } else if (action === 'snooze') {
+          await snoozeMedication(med.id, snoozedUntil);
+        } else {
+          await skipMedication(med.id);
+        }
+      }
+      closeAlarm();
+    } catch (error) {
+      logger.error('Failed to record alarm action', error);
+      setFailed(true);
+      setPendingAction(null);
+    }
+  };
+
+  if (loading || alarmBatch.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#FFFFFF" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <FontAwesome6 name="bell" size={48} color="#FFFFFF" solid />
+        <Text style={styles.title}>Medicine Time</Text>
+        <Text style={styles.time}>{formatTo12Hour(alarmBatch[0].time)}</Text>
+      </View>
+
+      <View style={styles.list}>
+        {alarmBatch.map((med) => (
+          <View key={med.id} style={styles.medCard}>
+            <Text style={styles.medName} numberOfLines={1}>
+              {med.name}
+            </Text>
+            <Text style={styles.medDose}>{getEffectiveDosage(med)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {failed ? (
+        <Text style={styles.errorText}>Could not save. Please check your connection and try again.</Text>
+      ) : null}
+
+      <View style={styles.actions}>
+        <Pressable
+          onPress={() => handleAction('taken')}
+          disabled={pendingAction !== null}
+          style={({ pressed }) => [styles.takenButton, pressed && styles.buttonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel="I took my medicine"
+        >
+          {pendingAction === 'taken' ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <FontAwesome6 name="circle-check" size={24} color="#FFFFFF" solid />
+              <Text style={styles.takenButtonText}>I took it</Text>
+            </>
+          )}
+        </Pressable>
+
+        <View style={styles.secondaryRow}>
+          <Pressable
+            onPress={() => handleAction('snooze')}
+            disabled={pendingAction !== null}
+            style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel={`Snooze for ${snoozeMinutes} minutes`}
+          >
+            {pendingAction === 'snooze' ? (
+              <ActivityIndicator color="#0f766e" />
+            ) : (
+              <Text style={styles.secondaryButtonText}>Snooze {snoozeMinutes} min</Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={() => handleAction('skip')}
+            disabled={pendingAction !== null}
+            style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Skip this dose"
+          >
+            {pendingAction === 'skip' ? (
+              <ActivityIndicator color="#0f766e" />
+            ) : (
+              <Text style={styles.secondaryButtonText}>Skip</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: '#0f766e',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#0f766e',
+    paddingHorizontal: 24,
+    paddingVertical: 32,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 24,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '900',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  time: {
+    fontSize: 48,
+    fontWeight: '900',
+    color: '#ccfbf1',
+  },
+  list: {
+    flex: 1,
+    justifyContent: 'center',
+    gap: 12,
+  },
+  medCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 24,
+    paddingVertical: 18,
+    paddingHorizontal: 20,
+  },
+  medName: {
+    fontSize: 26,
+    fontWeight: '900',
+    color: '#0F172A',
+  },
+  medDose: {
+    marginTop: 4,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#475569',
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#fecaca',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    gap: 12,
+  },
+  takenButton: {
+    backgroundColor: '#ea580c',
+    borderRadius: 22,
+    paddingVertical: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 10,
+  },
+  takenButtonText: {
+    fontSize: 24,
+    fontWeight: '900',
+    color: '#FFFFFF',
+    textTransform: 'uppercase',
+  },
+  secondaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 22,
+    paddingVertical: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#0f766e',
+  },
+  buttonPressed: {
+    transform: [{ scale: 0.98 }],
+  },
+});
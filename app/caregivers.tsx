@@ -0,0 +1,595 @@
+/**
+ * Family & caregivers
+ * Patients invite caregivers with a one-time code and choose what each one may
+ * do; caregivers accept codes, switch MedicationContext to a linked
+ * patient's medications, and follow up on missed-dose alerts
+ * (see features/caregivers/services/caregiverRepository.ts).
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
+import { router } from 'expo-router';
+import { ROUTES } from '@/constants/config';
+import { useMedication } from '@/contexts/MedicationContext';
+import {
+  acceptCaregiverInvite,
+  acknowledgeCaregiverAlert,
+  createCaregiverInvite,
+  fetchCaregiverAlerts,
+  fetchCaregiverLinks,
+  removeCaregiverLink,
+  updateCaregiverPermissions,
+} from '@/features/caregivers/services/caregiverRepository';
+import { fetchAlertChannel, updateAlertChannel } from '@/features/profile/services/profileRepository';
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+import type { CaregiverAlert, CaregiverAlertChannel, CaregiverLink, CaregiverPermissions } from '@/types';
+
+type PermissionKey = 'canEdit' | 'receiveAlerts';
+
+// View access is always granted; these are the optional extras
+const PERMISSION_OPTIONS: { key: PermissionKey; label: string }[] = [
+  { key: 'canEdit', label: 'Can edit' },
+  { key: 'receiveAlerts', label: 'Missed-dose alerts' },
+];
+
+const ALERT_CHANNEL_OPTIONS: { value: CaregiverAlertChannel; label: string }[] = [
+  { value: 'push', label: 'Notification' },
+  { value: 'sms', label: 'Text' },
+  { value: 'call', label: 'Call' },
+];
+
+const DEFAULT_INVITE_PERMISSIONS: CaregiverPermissions = {
+  canView: true,
+  canEdit: false,
+  receiveAlerts: true,
+};
+
+function describePermissions(permissions: CaregiverPermissions): string {
+  const parts = [permissions.canEdit ? 'View and edit' : 'View only'];
+  if (permissions.receiveAlerts) parts.push('alerts');
+  return parts.join(' · ');
+}
+
+export default function CaregiversScreen() {
+  const { viewingPatient, viewPatient } = useMedication();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [links, setLinks] = useState<CaregiverLink[]>([]);
+  const [alerts, setAlerts] = useState<CaregiverAlert[]>([]);
+  const [alertChannel, setAlertChannel] = useState<CaregiverAlertChannel>('push');
+  const [loading, setLoading] = useState(true);
+  const [inviteCode, setInviteCode] = useState('');
+  const [invitePermissions, setInvitePermissions] = useState(DEFAULT_INVITE_PERMISSIONS);
+  const [busy, setBusy] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const uid = session?.user.id ?? null;
+      setUserId(uid);
+      if (!uid) {
+        setLinks([]);
+        setAlerts([]);
+        return;
+      }
+
+      const [nextLinks, nextAlerts, nextChannel] = await Promise.all([
+        fetchCaregiverLinks(uid),
+        fetchCaregiverAlerts(uid),
+        fetchAlertChannel(uid),
+      ]);
+      setLinks(nextLinks);
+      setAlerts(nextAlerts);
+      setAlertChannel(nextChannel);
+    } catch (error) {
+      logger.error('Failed to load caregiver links', error);
+      Alert.alert('Error', 'Failed to load your family and caregivers. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadLinks();
+  }, [loadLinks]);
+
+  const patients = useMemo(
+    () => links.filter((l) => l.caregiverId === userId && l.status === 'accepted'),
+    [links, userId]
+  );
+  const caregivers = useMemo(() => links.filter((l) => l.patientId === userId), [links, userId]);
+
+  // Runs a change, then reloads the list; errors are shown, not thrown
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await action();
+      await loadLinks();
+    } catch (error) {
+      logger.error(failureMessage, error);
+      Alert.alert('Error', failureMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleViewPatient = async (link: CaregiverLink) => {
+    try {
+      await viewPatient(link);
+      router.replace(ROUTES.TABS);
+    } catch (error) {
+      logger.error('Failed to switch to patient', error);
+      Alert.alert('Error', 'You no longer have access to these medications.');
+    }
+  };
+
+  const handleAccept = () => {
+    const code = inviteCode.trim();
+    if (code.length === 0) {
+      Alert.alert('Invite code', 'Please enter the code you were given.');
+      return;
+    }
+
+    void runAction(async () => {
+      await acceptCaregiverInvite(code);
+      setInviteCode('');
+    }, 'That invite code is invalid or has expired. After several wrong codes, please wait 15 minutes.');
+  };
+
+  const handleCreateInvite = () => {
+    if (!userId) return;
+    void runAction(
+      () => createCaregiverInvite(userId, invitePermissions),
+      'Failed to create the invite. Please try again.'
+    );
+  };
+
+  const handleTogglePermission = (link: CaregiverLink, key: PermissionKey) => {
+    void runAction(
+      () => updateCaregiverPermissions(link.id, { ...link.permissions, [key]: !link.permissions[key] }),
+      'Failed to update permissions. Please try again.'
+    );
+  };
+
+  const handleAcknowledge = (alert: CaregiverAlert) => {
+    void runAction(
+      () => acknowledgeCaregiverAlert(alert.id),
+      'Failed to mark the alert as followed up. Please try again.'
+    );
+  };
+
+  const handleAlertChannel = (channel: CaregiverAlertChannel) => {
+    if (!userId || channel === alertChannel) return;
+    void runAction(
+      () => updateAlertChannel(userId, channel),
+      'Failed to save how you get alerts. Please try again.'
+    );
+  };
+
+  const handleRemove = (link: CaregiverLink, isPatientSide: boolean) => {
+    const name = isPatientSide ? link.caregiverName : link.patientName;
+    const message = link.status === 'pending'
+      ? 'Cancel this invite? The code will stop working.'
+      : `Stop sharing medications ${isPatientSide ? 'with' : 'from'} ${name || 'this person'}?`;
+
+    Alert.alert('Remove', message, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          void runAction(async () => {
+            await removeCaregiverLink(link.id);
+            if (viewingPatient?.id === link.id) await viewPatient(null);
+          }, 'Failed to remove. Please try again.');
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0d9488" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.topRow}>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.backButton, pressed && styles.buttonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Back"
+          >
+            <FontAwesome6 name="arrow-left" size={18} color="#0F172A" />
+          </Pressable>
+          <Text style={styles.title}>Family & Caregivers</Text>
+        </View>
+
+        {/* Missed-dose alerts waiting for a follow-up */}
+        {alerts.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Missed doses</Text>
+            {alerts.map((alert) => (
+              <View key={alert.id} style={[styles.card, styles.alertCard]}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardName}>{alert.patientName}</Text>
+                  <Text style={styles.cardDetail}>
+                    Missed {alert.medicationNames.join(', ')}
+                  </Text>
+                  <Text style={styles.cardDetail}>
+                    {new Date(alert.createdAt).toLocaleString()}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() => handleAcknowledge(alert)}
+                  disabled={busy}
+                  style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.primaryButtonText}>{"I've followed up"}</Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {/* People I care for */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>People I care for</Text>
+          {viewingPatient ? (
+            <Pressable
+              onPress={() => void viewPatient(null).then(() => router.replace(ROUTES.TABS))}
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+              accessibilityRole="button"
+            >
+              <Text style={styles.secondaryButtonText}>Back to my medications</Text>
+            </Pressable>
+          ) : null}
+          {patients.length === 0 ? (
+            <Text style={styles.emptyText}>Enter an invite code below to help someone with their medications.</Text>
+          ) : (
+            patients.map((link) => (
+              <View key={link.id} style={styles.card}>
+                <View style={styles.cardRow}>
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardName}>{link.patientName || 'Unnamed patient'}</Text>
+                    <Text style={styles.cardDetail}>{describePermissions(link.permissions)}</Text>
+                  </View>
+                  <Pressable
+                    onPress={() => handleRemove(link, false)}
+                    disabled={busy}
+                    hitSlop={10}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Stop helping ${link.patientName || 'this patient'}`}
+                  >
+                    <FontAwesome6 name="trash-can" size={20} color="#dc2626" />
+                  </Pressable>
+                </View>
+                {link.permissions.canView ? (
+                  <Pressable
+                    onPress={() => void handleViewPatient(link)}
+                    style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.primaryButtonText}>
+                      {viewingPatient?.id === link.id ? 'Viewing now' : 'View medications'}
+                    </Text>
+                  </Pressable>
+                ) : null}
+              </View>
+            ))
+          )}
+
+          {patients.some((link) => link.permissions.receiveAlerts) ? (
+            <View style={styles.card}>
+              <Text style={styles.cardDetail}>Tell me about missed doses by:</Text>
+              <View style={styles.chipRow}>
+                {ALERT_CHANNEL_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.value}
+                    onPress={() => handleAlertChannel(option.value)}
+                    disabled={busy}
+                    style={[styles.chip, alertChannel === option.value && styles.chipActive]}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: alertChannel === option.value }}
+                  >
+                    <Text style={[styles.chipText, alertChannel === option.value && styles.chipTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          ) : null}
+
+          <View style={styles.inviteRow}>
+            <TextInput
+              value={inviteCode}
+              onChangeText={setInviteCode}
+              placeholder="Invite code"
+              placeholderTextColor="#64748b"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              style={styles.input}
+              accessibilityLabel="Invite code input"
+            />
+            <Pressable
+              onPress={handleAccept}
+              disabled={busy}
+              style={({ pressed }) => [styles.acceptButton, pressed && styles.buttonPressed]}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>Join</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {/* My caregivers */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>My caregivers</Text>
+          {caregivers.length === 0 ? (
+            <Text style={styles.emptyText}>Invite a family member so they can follow your medications.</Text>
+          ) : (
+            caregivers.map((link) => (
+              <View key={link.id} style={styles.card}>
+                <View style={styles.cardRow}>
+                  <View style={styles.cardInfo}>
+                    {link.status === 'pending' ? (
+                      <>
+                        <Text style={styles.cardDetail}>Invite code</Text>
+                        {/* Groups of 4 for reading aloud; spaces are ignored when accepting */}
+                        <Text style={styles.inviteCode} selectable>
+                          {link.inviteCode.match(/.{1,4}/g)?.join(' ')}
+                        </Text>
+                        <Text style={styles.cardDetail}>
+                          Expires {new Date(link.inviteExpiresAt).toLocaleDateString()}
+                        </Text>
+                      </>
+                    ) : (
+                      <Text style={styles.cardName}>{link.caregiverName || 'Unnamed caregiver'}</Text>
+                    )}
+                  </View>
+                  <Pressable
+                    onPress={() => handleRemove(link, true)}
+                    disabled={busy}
+                    hitSlop={10}
+                    accessibilityRole="button"
+                    accessibilityLabel={link.status === 'pending' ? 'Cancel invite' : 'Remove caregiver'}
+                  >
+                    <FontAwesome6 name="trash-can" size={20} color="#dc2626" />
+                  </Pressable>
+                </View>
+                <View style={styles.chipRow}>
+                  {PERMISSION_OPTIONS.map((option) => (
+                    <Pressable
+                      key={option.key}
+                      onPress={() => handleTogglePermission(link, option.key)}
+                      disabled={busy}
+                      style={[styles.chip, link.permissions[option.key] && styles.chipActive]}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: link.permissions[option.key] }}
+                    >
+                      <Text style={[styles.chipText, link.permissions[option.key] && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            ))
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardName}>Invite a caregiver</Text>
+            <Text style={styles.cardDetail}>They can always see your medications. Also allow:</Text>
+            <View style={styles.chipRow}>
+              {PERMISSION_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.key}
+                  onPress={() =>
+                    setInvitePermissions((prev) => ({ ...prev, [option.key]: !prev[option.key] }))
+                  }
+                  style={[styles.chip, invitePermissions[option.key] && styles.chipActive]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: invitePermissions[option.key] }}
+                >
+                  <Text style={[styles.chipText, invitePermissions[option.key] && styles.chipTextActive]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Pressable
+              onPress={handleCreateInvite}
+              disabled={busy}
+              style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+              accessibilityRole="button"
+            >
+              {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Create invite code</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: '#f5f5f4',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f4',
+  },
+  scrollContent: {
+    padding: 24,
+    paddingTop: 28,
+    gap: 24,
+  },
+  topRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 14,
+    backgroundColor: '#E2E8F0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonPressed: {
+    opacity: 0.9,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '900',
+    color: '#0F172A',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#374151',
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 16,
+    gap: 12,
+  },
+  alertCard: {
+    borderWidth: 2,
+    borderColor: '#fca5a5',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  cardName: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#0F172A',
+  },
+  cardDetail: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  inviteCode: {
+    fontSize: 28,
+    fontWeight: '900',
+    color: '#0d9488',
+    letterSpacing: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  chipActive: {
+    borderColor: '#0d9488',
+    backgroundColor: '#0d9488',
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '800',
+    color: '#475569',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  primaryButton: {
+    backgroundColor: '#0d9488',
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 18,
+    fontWeight: '900',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#99f6e4',
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '900',
+    color: '#0f766e',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#CBD5E1',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#0F172A',
+    letterSpacing: 2,
+  },
+  acceptButton: {
+    backgroundColor: '#0d9488',
+    borderRadius: 14,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
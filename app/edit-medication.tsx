@@ -0,0 +1,5 @@
+/**
+ * Edit medication route
+ * Reuses the add-medication screen, pre-populated from the medicationId param
+ */
+export { default } from './add-medication';
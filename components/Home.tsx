@@ -1,23 +1,52 @@
 import React, { useMemo, useState } from 'react';
 import { Alert, FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
 import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
+import { SNOOZE_OPTIONS_MINUTES } from '@/constants/notifications';
+import { formatRecurrence } from '@/features/medications/utils/recurrence';
 import { isMedicationMissed } from '@/features/medications/utils/time';
+import type { MedicationSyncStatus, RecurrenceRule, ReminderChannel } from '@/types';
 
 export interface Medication {
   id: string;
+  medicationId: string;
   name: string;
   dosage: string;
   time: string; // HH:mm
+  recurrence: RecurrenceRule;
   isTaken: boolean;
+  snoozedUntil?: string | null; // ISO time a snoozed dose rings again
+  daysOfSupply?: number | null; // null = inventory not tracked
+  lowSupply?: boolean; // At or below the refill threshold
 }
 
 interface HomeProps {
   meds: Medication[];
   onToggleMed: (id: string) => void;
-  onDeleteMed: (id: string) => void;
+  onDeleteMed: (medicationId: string) => void;
+  onEditMed: (medicationId: string) => void;
+  onSnoozeMed: (id: string) => void;
+  snoozeMinutes: number;
+  onSnoozeMinutesChange: (minutes: number) => void;
+  reminderChannel: ReminderChannel;
+  onReminderChannelChange: (channel: ReminderChannel) => void;
   onAddClick: () => void;
+  syncStatus?: MedicationSyncStatus;
+  viewingPatientName?: string | null; // Set while a caregiver views a linked patient
+  onStopViewing?: () => void;
+  onCaregiversClick?: () => void;
 }
 
+const REMINDER_CHANNEL_OPTIONS: { value: ReminderChannel; label: string }[] = [
+  { value: 'call', label: 'Phone call' },
+  { value: 'sms', label: 'Text message' },
+];
+
+const SYNC_STATUS_LABELS: Record<Exclude<MedicationSyncStatus, 'synced'>, string> = {
+  syncing: 'Syncing...',
+  pending: 'Changes waiting to sync',
+  offline: 'Offline - showing saved list',
+};
+
 // Helper function to get consistent pastel color based on medicine name
 function getColorForName(name: string): string {
   // Hash the name to get a consistent number
@@ -110,7 +139,22 @@ function formatTo12Hour(time: string): string {
   }
 }
 
-export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: HomeProps) {
+export default function Home({
+  meds,
+  onToggleMed,
+  onDeleteMed,
+  onEditMed,
+  onSnoozeMed,
+  snoozeMinutes,
+  onSnoozeMinutesChange,
+  reminderChannel,
+  onReminderChannelChange,
+  onAddClick,
+  syncStatus = 'synced',
+  viewingPatientName = null,
+  onStopViewing,
+  onCaregiversClick,
+}: HomeProps) {
   const [activeTab, setActiveTab] = useState<TimePeriod>(getCurrentTimePeriod);
 
   const nextMed = useMemo(() => {
@@ -148,6 +192,14 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
 
   const greeting = useMemo(() => getGreeting(), []);
 
+  // Snoozed dose's ring-again time as "HH:MM AM/PM", or null if not snoozed
+  const heroSnoozedUntil = useMemo(() => {
+    if (!nextMed?.snoozedUntil) return null;
+    const until = new Date(nextMed.snoozedUntil);
+    if (until.getTime() <= Date.now()) return null;
+    return formatTo12Hour(`${until.getHours()}:${until.getMinutes().toString().padStart(2, '0')}`);
+  }, [nextMed]);
+
   const todayLabel = useMemo(() => {
     try {
       return new Date().toLocaleDateString('en-US', {
@@ -163,13 +215,31 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
   const renderHeader = () => (
     <>
       <View style={styles.heroSection}>
+        {viewingPatientName !== null ? (
+          <View style={styles.patientBanner}>
+            <FontAwesome6 name="user-group" size={16} color="#7c2d12" />
+            <Text style={styles.patientBannerText} numberOfLines={1}>
+              Viewing {viewingPatientName}&apos;s medications
+            </Text>
+            <Pressable
+              onPress={onStopViewing}
+              style={({ pressed }) => [styles.patientBannerButton, pressed && styles.buttonPressed]}
+              accessibilityRole="button"
+              accessibilityLabel="Back to my medications"
+            >
+              <Text style={styles.patientBannerButtonText}>Back to mine</Text>
+            </Pressable>
+          </View>
+        ) : null}
+
         <View style={styles.header}>
           <View style={styles.greetingSection}>
             <Text style={styles.greetingText}>
               {greeting.text}! {greeting.emoji}
             </Text>
             <Text style={styles.progressText}>
-              You have taken {progressStats.taken} of {progressStats.total} pills today
+              {viewingPatientName !== null ? `${viewingPatientName} has` : 'You have'} taken {progressStats.taken} of{' '}
+              {progressStats.total} pills today
             </Text>
             <View style={styles.progressBarContainer}>
               <View style={[styles.progressBarFill, { width: `${progressStats.percentage}%` }]} />
@@ -177,6 +247,22 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
           </View>
           <View>
             <Text style={styles.dateText}>{todayLabel}</Text>
+            {syncStatus !== 'synced' ? (
+              <View
+                style={[styles.syncBadge, syncStatus === 'offline' && styles.syncBadgeOffline]}
+                accessibilityRole="text"
+                accessibilityLabel={SYNC_STATUS_LABELS[syncStatus]}
+              >
+                <FontAwesome6
+                  name={syncStatus === 'offline' ? 'cloud' : 'arrows-rotate'}
+                  size={12}
+                  color={syncStatus === 'offline' ? '#b45309' : '#0f766e'}
+                />
+                <Text style={[styles.syncBadgeText, syncStatus === 'offline' && styles.syncBadgeTextOffline]}>
+                  {SYNC_STATUS_LABELS[syncStatus]}
+                </Text>
+              </View>
+            ) : null}
           </View>
         </View>
 
@@ -215,6 +301,18 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
               <FontAwesome6 name="circle-check" size={20} color="#FFFFFF" solid />
               <Text style={styles.primaryButtonText}>I took this pill</Text>
             </Pressable>
+
+            <Pressable
+              onPress={() => onSnoozeMed(nextMed.id)}
+              style={({ pressed }) => [styles.snoozeButton, pressed && styles.snoozeButtonPressed]}
+              accessibilityRole="button"
+              accessibilityLabel={`Snooze ${nextMed.name} for ${snoozeMinutes} minutes`}
+            >
+              <FontAwesome6 name="clock" size={18} color="#0d9488" />
+              <Text style={styles.snoozeButtonText}>
+                {heroSnoozedUntil ? `Snoozed until ${heroSnoozedUntil}` : `Snooze ${snoozeMinutes} min`}
+              </Text>
+            </Pressable>
           </View>
         ) : (
           <View style={styles.caughtUpCard}>
@@ -258,10 +356,14 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
     const isTaken = med.isTaken;
     const isMissed = isMedicationMissed(med.time, med.isTaken);
     
+    const timesPerDay = meds.filter((m) => m.medicationId === med.medicationId).length;
+
     const handleDelete = () => {
       Alert.alert(
         'Delete Medication?',
-        'Are you sure you want to remove this reminder?',
+        timesPerDay > 1
+          ? `This removes ${med.name} and all ${timesPerDay} of its reminders.`
+          : 'Are you sure you want to remove this reminder?',
         [
           {
             text: 'Cancel',
@@ -270,7 +372,7 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
           {
             text: 'Yes, Delete',
             style: 'destructive',
-            onPress: () => onDeleteMed(med.id),
+            onPress: () => onDeleteMed(med.medicationId),
           },
         ],
         { cancelable: true }
@@ -313,7 +415,12 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
           )}
         </Pressable>
 
-        <View style={styles.itemBody}>
+        <Pressable
+          onPress={() => onEditMed(med.medicationId)}
+          style={styles.itemBody}
+          accessibilityRole="button"
+          accessibilityLabel={`Edit ${med.name}`}
+        >
           <View style={styles.itemTopRow}>
             <Text style={[styles.itemName, isTaken && styles.itemNameTaken]} numberOfLines={1}>
               {med.name}
@@ -323,8 +430,18 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
 
           <View style={styles.itemBottomRow}>
             <Text style={styles.itemDose} numberOfLines={1}>
-              {med.dosage}
+              {med.recurrence.type === 'daily'
+                ? med.dosage
+                : `${med.dosage} · ${formatRecurrence(med.recurrence)}`}
             </Text>
+            {med.daysOfSupply !== undefined && med.daysOfSupply !== null ? (
+              <Text
+                style={[styles.supplyText, med.lowSupply && styles.supplyTextLow]}
+                accessibilityLabel={`${med.daysOfSupply} days of ${med.name} left`}
+              >
+                {med.lowSupply ? '⚠️ ' : ''}{med.daysOfSupply}d left
+              </Text>
+            ) : null}
             <Pressable
               onPress={(e) => {
                 e.stopPropagation();
@@ -338,11 +455,65 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
               <FontAwesome6 name="trash-can" size={24} color="#dc2626" />
             </Pressable>
           </View>
-        </View>
+        </Pressable>
       </View>
     );
   };
 
+  const renderFooter = () => (
+    <View style={styles.snoozeSettingSection}>
+      {viewingPatientName === null ? (
+        <>
+          <Text style={styles.snoozeSettingLabel}>Snooze length</Text>
+          <View style={styles.snoozeChipRow}>
+            {SNOOZE_OPTIONS_MINUTES.map((minutes) => (
+              <Pressable
+                key={minutes}
+                onPress={() => onSnoozeMinutesChange(minutes)}
+                style={[styles.snoozeChip, snoozeMinutes === minutes && styles.snoozeChipActive]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: snoozeMinutes === minutes }}
+                accessibilityLabel={`Snooze for ${minutes} minutes`}
+              >
+                <Text style={[styles.snoozeChipText, snoozeMinutes === minutes && styles.snoozeChipTextActive]}>
+                  {minutes} min
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={styles.snoozeSettingLabel}>Reminders by</Text>
+          <View style={styles.snoozeChipRow}>
+            {REMINDER_CHANNEL_OPTIONS.map((option) => (
+              <Pressable
+                key={option.value}
+                onPress={() => onReminderChannelChange(option.value)}
+                style={[styles.snoozeChip, reminderChannel === option.value && styles.snoozeChipActive]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: reminderChannel === option.value }}
+                accessibilityLabel={`Remind me by ${option.label.toLowerCase()}`}
+              >
+                <Text style={[styles.snoozeChipText, reminderChannel === option.value && styles.snoozeChipTextActive]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+      {onCaregiversClick ? (
+        <Pressable
+          onPress={onCaregiversClick}
+          style={({ pressed }) => [styles.caregiversButton, pressed && styles.buttonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel="Family and caregivers"
+        >
+          <FontAwesome6 name="user-group" size={18} color="#0f766e" />
+          <Text style={styles.caregiversButtonText}>Family & Caregivers</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+
   const renderEmpty = () => (
     <View style={styles.emptyBox}>
       <Text style={styles.emptyText}>No meds this {activeTab}</Text>
@@ -357,6 +528,7 @@ export default function Home({ meds, onToggleMed, onDeleteMed, onAddClick }: Hom
         keyExtractor={(item) => item.id}
         ListHeaderComponent={renderHeader}
         ListEmptyComponent={renderEmpty}
+        ListFooterComponent={renderFooter}
         contentContainerStyle={styles.container}
         ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
       />
@@ -481,6 +653,29 @@ const styles = StyleSheet.create({
     color: '#1E293B',
     marginTop: 4,
   },
+  syncBadge: {
+    marginTop: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: '#ccfbf1',
+    maxWidth: 140,
+  },
+  syncBadgeOffline: {
+    backgroundColor: '#fef3c7',
+  },
+  syncBadgeText: {
+    fontSize: 12,
+    fontWeight: '800',
+    color: '#0f766e',
+  },
+  syncBadgeTextOffline: {
+    color: '#b45309',
+  },
   nextCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 24,
@@ -615,6 +810,26 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  snoozeButton: {
+    marginTop: 10,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#0d9488',
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+  },
+  snoozeButtonPressed: {
+    backgroundColor: '#ccfbf1',
+  },
+  snoozeButtonText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#0d9488',
+  },
   caughtUpCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 24,
@@ -770,6 +985,14 @@ const styles = StyleSheet.create({
     color: '#475569',
     flex: 1,
   },
+  supplyText: {
+    fontSize: 14,
+    fontWeight: '800',
+    color: '#64748b',
+  },
+  supplyTextLow: {
+    color: '#b45309',
+  },
   trashButton: {
     backgroundColor: '#fee2e2',
     padding: 12,
@@ -782,6 +1005,87 @@ const styles = StyleSheet.create({
     backgroundColor: '#fecaca',
     opacity: 0.9,
   },
+  snoozeSettingSection: {
+    marginTop: 24,
+    gap: 10,
+  },
+  snoozeSettingLabel: {
+    fontSize: 18,
+    fontWeight: '900',
+    color: '#374151',
+  },
+  snoozeChipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  snoozeChip: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  snoozeChipActive: {
+    borderColor: '#0d9488',
+    backgroundColor: '#0d9488',
+  },
+  snoozeChipText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#475569',
+  },
+  snoozeChipTextActive: {
+    color: '#FFFFFF',
+  },
+  patientBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#ffedd5',
+    borderRadius: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  patientBannerText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#7c2d12',
+  },
+  patientBannerButton: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  patientBannerButtonText: {
+    fontSize: 14,
+    fontWeight: '900',
+    color: '#7c2d12',
+  },
+  caregiversButton: {
+    marginTop: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#99f6e4',
+    backgroundColor: '#FFFFFF',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  caregiversButtonText: {
+    fontSize: 18,
+    fontWeight: '900',
+    color: '#0f766e',
+  },
   bottomButtonsContainer: {
     position: 'absolute',
     bottom: 30,
@@ -7,6 +7,11 @@ export const MIN_FREQUENCY_PER_DAY = 1;
 
 export const MAX_MEDICATIONS_PER_USER = 50;
 
+/**
+ * Default days of supply at which a refill reminder is raised
+ */
+export const DEFAULT_REFILL_THRESHOLD_DAYS = 7;
+
 /**
  * Route paths (for use in navigation)
  * Keep these centralized but do NOT break Expo Router typed routes
@@ -15,5 +20,7 @@ export const ROUTES = {
   TABS: '/(tabs)',
   ALARM: '/alarm',
   ADD_MEDICATION: '/add-medication',
+  EDIT_MEDICATION: '/edit-medication',
   AUTH: '/auth',
+  CAREGIVERS: '/caregivers',
 } as const;
@@ -13,3 +13,14 @@ export const NOTIFICATION_LIGHT_COLOR = '#DC2626';
 
 // Custom alarm sound for full-screen alarm (loops continuously until dismissed)
 export const ALARM_RINGTONE_PATH = require('../assets/custom_alert.wav');
+
+// Snooze lengths the user can pick (profiles.snooze_minutes); keep in sync
+// with supabase/functions/_shared/snooze.ts
+export const SNOOZE_OPTIONS_MINUTES = [5, 10, 15, 30] as const;
+
+// Snooze length until the user picks one
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+// Days ahead the alarm sync keeps local notifee triggers scheduled
+// (alarms keep ringing for this long even if the app is not opened)
+export const ALARM_SYNC_LOOKAHEAD_DAYS = 3;
@@ -7,6 +7,9 @@
  * New day starts at midnight (00:00)
  * From 00:00-02:59: Previous day's missed medications still show as "missed"
  * After 03:00: All medications reset for the new day
+ *
+ * The actual reset (is_taken, retry_count, last_called_at) is performed
+ * server-side by the daily-rollover edge function, which uses the same hour.
  */
 export const RESET_HOUR = 3;
 
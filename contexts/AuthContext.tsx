@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import * as profileRepository from '@/features/profile/services/profileRepository';
+import { getExpoPushToken } from '@/features/notifications/services/notificationsService';
 
 type AuthContextType = {
   session: Session | null;
@@ -13,6 +15,31 @@ type AuthContextType = {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * Store the device timezone on the user's profile so server-side calls
+ * happen at local medication times. Fire-and-forget: never blocks sign-in.
+ */
+function syncProfileTimezone(userId: string) {
+  const timezone = profileRepository.getDeviceTimezone();
+  if (!timezone) return;
+
+  profileRepository.updateProfileTimezone(userId, timezone).catch((error) => {
+    console.error('Failed to sync timezone:', error);
+  });
+}
+
+/**
+ * Store this device's push token on the user's profile so missed-dose
+ * alerts reach them as a caregiver. Fire-and-forget, like the timezone.
+ */
+function syncProfilePushToken(userId: string) {
+  getExpoPushToken()
+    .then((token) => token ? profileRepository.updatePushToken(userId, token) : undefined)
+    .catch((error) => {
+      console.error('Failed to sync push token:', error);
+    });
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
@@ -28,6 +55,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setSession(session);
           setUser(session?.user ?? null);
         }
+        if (session?.user) {
+          syncProfileTimezone(session.user.id);
+          syncProfilePushToken(session.user.id);
+        }
       })
       .catch((error) => {
         console.error('Failed to get session:', error);
@@ -45,12 +76,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       });
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
+      (event, session) => {
         if (!cancelled) {
           setSession(session);
           setUser(session?.user ?? null);
           setLoading(false);
         }
+        if (event === 'SIGNED_IN' && session?.user) {
+          syncProfileTimezone(session.user.id);
+          syncProfilePushToken(session.user.id);
+        }
       }
     );
 
@@ -1,25 +1,58 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
 import { supabase } from '../lib/supabase';
-import type { Medication, MedicationDraft } from '@/types';
+import type { CaregiverLink, Medication, MedicationDraft, MedicationMutation, MedicationSyncStatus } from '@/types';
 import { sortMedications } from '@/features/medications/utils/sortMedications';
+import { getDaysOfSupply } from '@/features/medications/utils/inventory';
 import * as medicationsRepository from '@/features/medications/services/medicationsRepository';
+import { subscribeToMedicationChanges } from '@/features/medications/services/medicationsRealtime';
+import { replayOutbox } from '@/features/medications/services/medicationSync';
+import { getDoseDate } from '@/features/medications/utils/time';
+import { scheduleSnoozeAlarm, showRefillReminder } from '@/features/notifications/services/notificationsService';
+import { readMedicationCache, writeMedicationCache } from '@/lib/medicationCache';
+import { createLocalId, enqueueMutation, hasQueuedAdd, isNetworkError, readOutbox } from '@/lib/medicationOutbox';
 
 interface MedicationContextType {
   medications: Medication[];
   addMedication: (med: MedicationDraft) => Promise<Medication[]>;
+  updateMedication: (medicationId: string, med: MedicationDraft) => Promise<Medication[]>;
   updateMedicationStatus: (id: string, isTaken: boolean) => Promise<void>;
-  deleteMedication: (id: string) => Promise<void>;
+  snoozeMedication: (id: string, snoozedUntil: number) => Promise<void>;
+  skipMedication: (id: string) => Promise<void>;
+  deleteMedication: (medicationId: string) => Promise<void>;
   loading: boolean;
   error: string | null;
+  syncStatus: MedicationSyncStatus;
+  // Linked patient whose medications are shown instead of the user's own (null = my meds)
+  viewingPatient: CaregiverLink | null;
+  viewPatient: (link: CaregiverLink | null) => Promise<void>;
+  canEdit: boolean;
 }
 
 const MedicationContext = createContext<MedicationContextType | undefined>(undefined);
 
+// Realtime changes to the same medication arriving within this window
+// (e.g. an edit touching several schedule rows) are refetched once
+const REALTIME_REFRESH_DELAY_MS = 300;
+
+// How often sync is retried while offline or with queued changes
+const SYNC_RETRY_INTERVAL_MS = 30 * 1000;
+
 export function MedicationProvider({ children }: { children: ReactNode }) {
   const [medications, setMedications] = useState<Medication[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<MedicationSyncStatus>('synced');
+  const [viewingPatient, setViewingPatient] = useState<CaregiverLink | null>(null);
   const isMountedRef = useRef(true);
+  const syncingRef = useRef<string | null>(null);
+  // Updated before the state so in-flight loads can tell the view has switched
+  const viewingPatientRef = useRef<CaregiverLink | null>(null);
+
+  // Whose medications are shown: the signed-in user or the viewed patient
+  const ownerId = viewingPatient?.patientId ?? userId;
+  const canEdit = !viewingPatient || viewingPatient.permissions.canEdit;
 
   useEffect(() => {
     return () => {
@@ -27,14 +60,67 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
-  // Load medications from repository on mount
+  /**
+   * Replay queued offline changes, then reload everything from the server.
+   * Returns false if the server could not be reached (cached data stays).
+   * uid is the user whose medications are shown; a viewed patient's list is
+   * only reloaded (the outbox only ever holds the user's own changes).
+   */
+  const syncWithServer = async (uid: string): Promise<boolean> => {
+    if (syncingRef.current === uid) return true;
+    syncingRef.current = uid;
+
+    const isPatient = uid === viewingPatientRef.current?.patientId;
+    // The view may switch while this runs; a stale result is dropped
+    const isCurrentView = () =>
+      isMountedRef.current && (viewingPatientRef.current?.patientId ?? null) === (isPatient ? uid : null);
+
+    if (isCurrentView()) setSyncStatus('syncing');
+
+    try {
+      if (!isPatient) {
+        const { offline } = await replayOutbox();
+        if (offline) {
+          if (isCurrentView()) setSyncStatus('offline');
+          return false;
+        }
+      }
+
+      const latest = await medicationsRepository.fetchMedications(uid);
+      const queued = isPatient ? [] : await readOutbox();
+
+      if (isCurrentView()) {
+        setMedications(sortMedications(latest));
+        setError(null);
+        setSyncStatus(queued.length > 0 ? 'pending' : 'synced');
+      }
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        if (isCurrentView()) setSyncStatus('offline');
+        return false;
+      }
+      console.error('Error syncing medications:', err);
+      if (isCurrentView()) setSyncStatus('pending');
+      return true;
+    } finally {
+      if (syncingRef.current === uid) syncingRef.current = null;
+    }
+  };
+
+  const syncRef = useRef(syncWithServer);
+  syncRef.current = syncWithServer;
+
+  // Load medications on mount: cached copy first, then the server
   useEffect(() => {
     let cancelled = false;
 
     const loadMedications = async () => {
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        
+        // Local session, so a signed-in user without connectivity still loads
+        const { data: { session } } = await supabase.auth.getSession();
+        const user = session?.user;
+
         if (!user) {
           // User not logged in, keep medications empty
           if (!cancelled && isMountedRef.current) {
@@ -44,11 +130,20 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
           return;
         }
 
-        const medications = await medicationsRepository.fetchMedications(user.id);
+        const cached = await readMedicationCache(user.id);
+        if (cached && !cancelled && isMountedRef.current) {
+          setUserId(user.id);
+          setMedications(sortMedications(cached));
+          setLoading(false);
+        }
+
+        const reached = await syncRef.current(user.id);
 
         if (!cancelled && isMountedRef.current) {
-          setMedications(sortMedications(medications));
-          setError(null);
+          setUserId(user.id);
+          if (!reached && !cached) {
+            setError('No connection. Your medications will show once you are back online.');
+          }
           setLoading(false);
         }
       } catch (err) {
@@ -67,15 +162,189 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Keep the offline cache up to date (including unsynced changes).
+  // Only the user's own medications are cached.
+  useEffect(() => {
+    if (!userId || loading || viewingPatient) return;
+    void writeMedicationCache(userId, medications);
+  }, [userId, loading, viewingPatient, medications]);
+
+  // Retry while offline or while changes are queued
+  useEffect(() => {
+    if (!ownerId || (syncStatus !== 'offline' && syncStatus !== 'pending')) return;
+
+    const timer = setInterval(() => {
+      void syncRef.current(ownerId);
+    }, SYNC_RETRY_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [ownerId, syncStatus]);
+
+  // Realtime: merge changes made outside the app (IVR, daily-rollover, other
+  // devices). The channel is dropped in the background and re-opened on
+  // foreground; every (re)subscribe reloads everything to catch missed events.
+  // A viewed patient's changes arrive the same way (RLS lets linked caregivers read them).
+  useEffect(() => {
+    if (!ownerId) return;
+
+    const pendingRefreshIds = new Set<string>();
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const refreshPending = async () => {
+      refreshTimer = null;
+      const medicationIds = [...pendingRefreshIds];
+      pendingRefreshIds.clear();
+
+      for (const medicationId of medicationIds) {
+        try {
+          const fresh = await medicationsRepository.fetchMedicationById(medicationId);
+          if (isMountedRef.current) {
+            setMedications((prev) =>
+              sortMedications([...prev.filter((m) => m.medicationId !== medicationId), ...fresh])
+            );
+          }
+        } catch (err) {
+          console.error('Error refreshing medication:', err);
+        }
+      }
+    };
+
+    const subscribe = () => {
+      unsubscribe?.();
+      unsubscribe = subscribeToMedicationChanges(ownerId, {
+        onMedicationChanged: (medicationId) => {
+          pendingRefreshIds.add(medicationId);
+          if (!refreshTimer) {
+            refreshTimer = setTimeout(refreshPending, REALTIME_REFRESH_DELAY_MS);
+          }
+        },
+        onMedicationDeleted: (medicationId) => {
+          setMedications((prev) => prev.filter((m) => m.medicationId !== medicationId));
+        },
+        onScheduleDeleted: (scheduleId) => {
+          setMedications((prev) => prev.filter((m) => m.id !== scheduleId));
+        },
+        onDoseEvent: (event) => {
+          if (event.doseDate !== getDoseDate()) return;
+          setMedications((prev) =>
+            sortMedications(
+              prev.map((m) => (m.id === event.scheduleId ? { ...m, isTaken: event.status === 'taken' } : m))
+            )
+          );
+        },
+        onSubscribed: () => {
+          void syncRef.current(ownerId);
+        },
+      });
+    };
+
+    subscribe();
+
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        subscribe();
+      } else if (state === 'background') {
+        unsubscribe?.();
+        unsubscribe = null;
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribe?.();
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [ownerId]);
+
+  /**
+   * Switch between the user's own medications (null) and a linked patient's.
+   * Patient views are online only: nothing is cached or queued, and no local
+   * alarms are scheduled for them (see useAlarmSync).
+   */
+  const viewPatient = async (link: CaregiverLink | null) => {
+    if (!userId) return;
+    if ((link?.patientId ?? null) === (viewingPatientRef.current?.patientId ?? null)) return;
+    if (link && (link.status !== 'accepted' || link.caregiverId !== userId || !link.permissions.canView)) {
+      throw new Error('You do not have access to these medications');
+    }
+
+    viewingPatientRef.current = link;
+    const isCurrentView = () => isMountedRef.current && viewingPatientRef.current === link;
+
+    setViewingPatient(link);
+    setMedications([]);
+    setError(null);
+    setLoading(true);
+
+    if (!link) {
+      const cached = await readMedicationCache(userId);
+      if (cached && isCurrentView()) {
+        setMedications(sortMedications(cached));
+      }
+    }
+
+    const reached = await syncRef.current(link?.patientId ?? userId);
+
+    if (isCurrentView()) {
+      if (!reached && link) {
+        setError('No connection. Their medications will show once you are back online.');
+      }
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Changes to a viewed patient's medications need the edit permission
+   */
+  const assertCanEdit = () => {
+    if (!canEdit) {
+      throw new Error('You can view these medications but not change them');
+    }
+  };
+
+  /**
+   * Queue a change that could not reach the server
+   */
+  const queueMutation = async (mutation: MedicationMutation) => {
+    await enqueueMutation(mutation);
+    if (isMountedRef.current) setSyncStatus('offline');
+  };
+
   const addMedication = async (newMed: MedicationDraft): Promise<Medication[]> => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
+
       if (!user) {
         throw new Error('User not authenticated');
       }
+      assertCanEdit();
+
+      const ownerUserId = viewingPatient?.patientId ?? user.id;
 
-      const created = await medicationsRepository.insertMedications(user.id, newMed);
+      let created: Medication[];
+      try {
+        created = await medicationsRepository.insertMedications(ownerUserId, newMed);
+      } catch (err) {
+        if (!isNetworkError(err) || viewingPatient) throw err;
+
+        // Offline: show it right away and insert it later with the same ids
+        const medicationId = createLocalId();
+        const scheduleIds = newMed.times.map(() => createLocalId());
+        created = medicationsRepository.mapDraftToLocalModels(user.id, newMed, medicationId, scheduleIds);
+        await queueMutation({
+          id: createLocalId(),
+          type: 'add',
+          createdAt: Date.now(),
+          medicationId,
+          scheduleIds,
+          userId: user.id,
+          draft: newMed,
+        });
+      }
 
       if (isMountedRef.current) {
         setMedications((prev) => sortMedications([...prev, ...created]));
@@ -89,9 +358,37 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateMedication = async (medicationId: string, draft: MedicationDraft): Promise<Medication[]> => {
+    const previous = medications.filter((m) => m.medicationId === medicationId);
+    if (previous.length === 0) {
+      throw new Error('Medication not found');
+    }
+    if (await hasQueuedAdd(medicationId)) {
+      throw new Error('This medication has not been saved yet. Please edit it once you are back online.');
+    }
+    assertCanEdit();
+
+    try {
+      const updated = await medicationsRepository.updateMedication(medicationId, draft, previous);
+
+      // Local alarms follow via useAlarmSync()
+      if (isMountedRef.current) {
+        setMedications((prev) =>
+          sortMedications([...prev.filter((m) => m.medicationId !== medicationId), ...updated])
+        );
+      }
+
+      return updated;
+    } catch (err) {
+      console.error('Error updating medication:', err);
+      throw err;
+    }
+  };
+
   const updateMedicationStatus = async (id: string, isTaken: boolean) => {
     const med = medications.find((m) => m.id === id);
     if (!med) return;
+    assertCanEdit();
 
     try {
 
@@ -103,7 +400,51 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
         });
       }
 
-      await medicationsRepository.updateMedicationTaken(id, isTaken);
+      // Offline: keep the toggle and replay it later (newest change wins,
+      // see recordQueuedDoseStatus); the cached count moves right away
+      const queueToggle = async () => {
+        await queueMutation({
+          id: createLocalId(),
+          type: 'toggle',
+          createdAt: Date.now(),
+          schedule: {
+            id: med.id,
+            medicationId: med.medicationId,
+            time: med.time,
+            user_id: med.user_id,
+            unitsPerDose: med.unitsPerDose,
+          },
+          isTaken,
+          doseDate: getDoseDate(),
+        });
+        if (med.inventoryCount !== null && isTaken !== med.isTaken && isMountedRef.current) {
+          const delta = isTaken ? -med.unitsPerDose : med.unitsPerDose;
+          setMedications((prev) =>
+            prev.map((m) =>
+              m.medicationId === med.medicationId && m.inventoryCount !== null
+                ? { ...m, inventoryCount: Math.max(0, m.inventoryCount + delta) }
+                : m
+            )
+          );
+        }
+      };
+
+      if (await hasQueuedAdd(med.medicationId)) {
+        await queueToggle();
+        return;
+      }
+
+      try {
+        await medicationsRepository.recordDoseStatus(med, isTaken ? 'taken' : 'pending');
+      } catch (err) {
+        if (!isNetworkError(err) || viewingPatient) throw err;
+        await queueToggle();
+        return;
+      }
+
+      if (med.inventoryCount !== null && isTaken !== med.isTaken) {
+        await applyInventoryChange(med, isTaken ? -med.unitsPerDose : med.unitsPerDose);
+      }
     } catch (err) {
       console.error('Error updating medication:', err);
       // Revert optimistic update with proper sorting
@@ -117,16 +458,109 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const deleteMedication = async (id: string) => {
+  /**
+   * Snooze today's dose until the given time (ms): the local alarm rings
+   * again then, and schedule-batches waits until then before calling.
+   */
+  const snoozeMedication = async (id: string, snoozedUntil: number) => {
+    const med = medications.find((m) => m.id === id);
+    if (!med) return;
+    assertCanEdit();
+
+    try {
+      await medicationsRepository.snoozeDose(id, new Date(snoozedUntil));
+
+      if (isMountedRef.current) {
+        const snoozedUntilISO = new Date(snoozedUntil).toISOString();
+        setMedications((prev) => prev.map((m) => (m.id === id ? { ...m, snoozedUntil: snoozedUntilISO } : m)));
+      }
+
+      // A patient's alarm rings on their own phone, not the caregiver's
+      if (!viewingPatient) {
+        await scheduleSnoozeAlarm(med, snoozedUntil);
+      }
+    } catch (err) {
+      console.error('Error snoozing medication:', err);
+      throw err;
+    }
+  };
+
+  /**
+   * Skip today's dose: recorded as 'skipped' in dose history, and
+   * schedule-batches no longer calls about it. Taken doses are left alone.
+   */
+  const skipMedication = async (id: string) => {
+    const med = medications.find((m) => m.id === id);
+    if (!med || med.isTaken) return;
+    assertCanEdit();
+
+    try {
+      await medicationsRepository.recordDoseStatus(med, 'skipped');
+    } catch (err) {
+      console.error('Error skipping medication:', err);
+      throw err;
+    }
+  };
+
+  /**
+   * Apply a taken (or un-taken) dose to the medication's inventory and raise
+   * a refill reminder when days of supply cross its threshold.
+   * Inventory failures never undo the dose itself.
+   */
+  const applyInventoryChange = async (med: Medication, delta: number) => {
+    try {
+      const remaining = await medicationsRepository.adjustInventory(med.medicationId, delta);
+      if (remaining === null) return;
+
+      const schedules = medications.filter((m) => m.medicationId === med.medicationId);
+      const daysBefore = getDaysOfSupply(schedules);
+      const daysAfter = getDaysOfSupply(schedules.map((m) => ({ ...m, inventoryCount: remaining })));
+
+      if (isMountedRef.current) {
+        setMedications((prev) =>
+          prev.map((m) => (m.medicationId === med.medicationId ? { ...m, inventoryCount: remaining } : m))
+        );
+      }
+
+      const threshold = med.refillThresholdDays;
+      if (
+        !viewingPatient &&
+        daysAfter !== null &&
+        daysAfter <= threshold &&
+        (daysBefore === null || daysBefore > threshold)
+      ) {
+        await showRefillReminder(med.name, daysAfter, remaining);
+      }
+    } catch (err) {
+      console.error('Error updating inventory:', err);
+    }
+  };
+
+  const deleteMedication = async (medicationId: string) => {
+    assertCanEdit();
     const backup = medications;
 
     try {
-      // Optimistically remove from UI
+      // Optimistically remove every schedule time of this medication from UI
       if (isMountedRef.current) {
-        setMedications((prev) => prev.filter((m) => m.id !== id));
+        setMedications((prev) => prev.filter((m) => m.medicationId !== medicationId));
+      }
+
+      // Offline (or added offline): delete later, or just drop the queued add
+      const queueDelete = () =>
+        queueMutation({ id: createLocalId(), type: 'delete', createdAt: Date.now(), medicationId });
+
+      if (await hasQueuedAdd(medicationId)) {
+        await queueDelete();
+        return;
       }
 
-      await medicationsRepository.deleteMedication(id);
+      try {
+        await medicationsRepository.deleteMedication(medicationId);
+      } catch (err) {
+        if (!isNetworkError(err) || viewingPatient) throw err;
+        await queueDelete();
+      }
     } catch (err) {
       console.error('Error deleting medication:', err);
       // Restore backup
@@ -142,10 +576,17 @@ export function MedicationProvider({ children }: { children: ReactNode }) {
       value={{
         medications,
         addMedication,
+        updateMedication,
         updateMedicationStatus,
+        snoozeMedication,
+        skipMedication,
         deleteMedication,
         loading,
         error,
+        syncStatus,
+        viewingPatient,
+        viewPatient,
+        canEdit,
       }}
     >
       {children}
@@ -0,0 +1,192 @@
+/**
+ * Call history
+ * Lists the reminder calls placed to the user (or, for a caregiver, to the
+ * patient they are viewing) with the medications, outcome and duration of
+ * each call (see features/calls/services/callHistoryRepository.ts).
+ */
+
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, Text, View } from 'react-native';
+import FontAwesome6 from '@expo/vector-icons/FontAwesome6';
+import { useFocusEffect } from 'expo-router';
+import { AppColors } from '@/constants/theme';
+import { useMedication } from '@/contexts/MedicationContext';
+import { fetchCallHistory } from '@/features/calls/services/callHistoryRepository';
+import { logger } from '@/lib/logger';
+import { supabase } from '@/lib/supabase';
+import type { CallHistoryEntry, CallOutcome } from '@/types';
+
+const OUTCOME_DISPLAY: Record<CallOutcome, { label: string; icon: string; color: string }> = {
+  taken: { label: 'Answered: taken', icon: 'circle-check', color: AppColors.successDark },
+  declined: { label: 'Answered: not taken', icon: 'circle-xmark', color: AppColors.warningDark },
+  no_response: { label: 'Answered, no reply', icon: 'circle-question', color: AppColors.warningDark },
+  no_answer: { label: 'No answer', icon: 'phone-slash', color: AppColors.dangerDark },
+  failed: { label: 'Call failed', icon: 'triangle-exclamation', color: AppColors.dangerDark },
+  in_progress: { label: 'Calling…', icon: 'phone-volume', color: AppColors.primary },
+};
+
+function formatDuration(seconds: number | null): string | null {
+  if (seconds === null) return null;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
+export function CallHistoryScreen() {
+  const { viewingPatient } = useMedication();
+  const [calls, setCalls] = useState<CallHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const patientId = viewingPatient?.patientId ?? null;
+
+  const loadCalls = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const ownerId = patientId ?? session?.user.id;
+      if (!ownerId) {
+        setCalls([]);
+        return;
+      }
+
+      setCalls(await fetchCallHistory(ownerId));
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load call history', err);
+      setError('Could not load the call history. Pull down to try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  // Refresh whenever the tab is shown (a call may have just finished)
+  useFocusEffect(
+    useCallback(() => {
+      void loadCalls();
+    }, [loadCalls])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadCalls();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={AppColors.primary} />
+      </View>
+    );
+  }
+
+  const title = viewingPatient
+    ? `Calls to ${viewingPatient.patientName || 'patient'}`
+    : 'Reminder calls';
+
+  return (
+    <FlatList
+      data={calls}
+      keyExtractor={(call) => call.id}
+      contentContainerStyle={styles.listContent}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => void handleRefresh()} />}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+        </View>
+      }
+      ListEmptyComponent={
+        error ? null : <Text style={styles.emptyText}>No reminder calls yet.</Text>
+      }
+      renderItem={({ item }) => {
+        const outcome = OUTCOME_DISPLAY[item.outcome];
+        const duration = formatDuration(item.durationSeconds);
+
+        return (
+          <View style={styles.card}>
+            <View style={styles.cardRow}>
+              <FontAwesome6 name={outcome.icon} size={22} color={outcome.color} />
+              <Text style={[styles.outcome, { color: outcome.color }]}>{outcome.label}</Text>
+              {duration ? <Text style={styles.duration}>{duration}</Text> : null}
+            </View>
+            <Text style={styles.medications}>{item.medicationNames.join(', ')}</Text>
+            <Text style={styles.detail}>
+              {new Date(item.calledAt).toLocaleString()}
+              {item.attempt > 1 ? ' · Retry call' : ''}
+            </Text>
+            {item.outcome === 'failed' && item.detail ? (
+              <Text style={styles.detail}>{item.detail}</Text>
+            ) : null}
+          </View>
+        );
+      }}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listContent: {
+    padding: 24,
+    paddingTop: 28,
+    gap: 12,
+  },
+  header: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '900',
+    color: '#0F172A',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  errorText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: AppColors.dangerDark,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 16,
+    gap: 6,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  outcome: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '900',
+  },
+  duration: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  medications: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#0F172A',
+  },
+  detail: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+});
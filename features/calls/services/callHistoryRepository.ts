@@ -0,0 +1,79 @@
+/**
+ * Call history repository
+ * Reads the reminder calls placed by make-call (call_sessions, see
+ * supabase/migrations/20260801001800_add_call_sessions.sql) with the lifecycle Twilio
+ * reported for each one (call_attempts, 20260801001900_add_call_attempts.sql)
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CallHistoryEntry, CallOutcome } from '@/types';
+import type { CallAttemptRow, CallSessionWithAttemptsRow } from '@/types/supabase';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Work out what came of a call
+ * The IVR answer wins; otherwise the last status Twilio reported decides.
+ */
+export function getCallOutcome(session: CallSessionWithAttemptsRow, attempt: CallAttemptRow | null): CallOutcome {
+  if (session.state === 'confirmed') return 'taken';
+  if (session.state === 'declined') return 'declined';
+  if (session.state === 'failed') return 'failed';
+
+  if (!attempt) {
+    return session.state === 'no_input' ? 'no_response' : 'in_progress';
+  }
+
+  switch (attempt.status) {
+    case 'failed':
+    case 'canceled':
+      return 'failed';
+    case 'busy':
+    case 'no-answer':
+      return 'no_answer';
+    case 'completed':
+      // Voicemail picked up: nobody heard the reminder
+      if (attempt.answered_by?.startsWith('machine') || attempt.answered_by === 'fax') return 'no_answer';
+      return 'no_response';
+    default:
+      return session.state === 'no_input' ? 'no_response' : 'in_progress';
+  }
+}
+
+/**
+ * Maps database row (snake_case) to domain model (camelCase)
+ */
+export function mapCallSessionRowToModel(row: CallSessionWithAttemptsRow): CallHistoryEntry {
+  // Latest attempt (a session normally has exactly one)
+  const attempt = [...(row.call_attempts || [])]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null;
+
+  return {
+    id: row.id,
+    calledAt: row.created_at,
+    medicationNames: row.medication_names,
+    attempt: row.attempt,
+    outcome: getCallOutcome(row, attempt),
+    durationSeconds: attempt?.duration_seconds ?? null,
+    detail: attempt?.detail ?? (row.state === 'failed' ? row.response : null),
+  };
+}
+
+/**
+ * Fetch a patient's most recent reminder calls, newest first
+ * (the patient, or a caregiver with view access)
+ */
+export async function fetchCallHistory(userId: string, limit = DEFAULT_HISTORY_LIMIT): Promise<CallHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('call_sessions')
+    .select('*, call_attempts(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch call history: ${error.message}`);
+  }
+
+  return ((data || []) as CallSessionWithAttemptsRow[]).map(mapCallSessionRowToModel);
+}
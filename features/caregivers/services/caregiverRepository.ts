@@ -0,0 +1,200 @@
+/**
+ * Caregiver repository
+ * Handles database operations for caregiver_links (patient -> caregiver
+ * sharing, see supabase/migrations/20260801001500_add_caregiver_links.sql) and the
+ * missed-dose alerts sent to caregivers (20260801001600_add_caregiver_alerts.sql)
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CaregiverAlert, CaregiverLink, CaregiverPermissions } from '@/types';
+import type { CaregiverAlertRow, CaregiverLinkRow } from '@/types/supabase';
+
+/**
+ * Maps database row (snake_case) to domain model (camelCase)
+ */
+export function mapCaregiverLinkRowToModel(row: CaregiverLinkRow, names: Map<string, string> = new Map()): CaregiverLink {
+  return {
+    id: row.id,
+    patientId: row.patient_id,
+    caregiverId: row.caregiver_id,
+    patientName: names.get(row.patient_id) ?? null,
+    caregiverName: row.caregiver_id ? names.get(row.caregiver_id) ?? null : null,
+    inviteCode: row.invite_code,
+    inviteExpiresAt: row.invite_expires_at,
+    status: row.status,
+    permissions: {
+      canView: row.can_view,
+      canEdit: row.can_edit,
+      receiveAlerts: row.receive_alerts,
+    },
+    acceptedAt: row.accepted_at,
+  };
+}
+
+/**
+ * Fetch every link the user is part of, as patient or as caregiver,
+ * with the names of the people on the other end
+ */
+export async function fetchCaregiverLinks(userId: string): Promise<CaregiverLink[]> {
+  const { data, error } = await supabase
+    .from('caregiver_links')
+    .select('*')
+    .or(`patient_id.eq.${userId},caregiver_id.eq.${userId}`)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch caregivers: ${error.message}`);
+  }
+
+  const rows = (data || []) as CaregiverLinkRow[];
+  const otherIds = new Set<string>();
+  for (const row of rows) {
+    if (row.patient_id !== userId) otherIds.add(row.patient_id);
+    if (row.caregiver_id && row.caregiver_id !== userId) otherIds.add(row.caregiver_id);
+  }
+
+  // Names are best effort: a missing profile just shows without a name
+  const names = new Map<string, string>();
+  if (otherIds.size > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', [...otherIds]);
+
+    if (profilesError) {
+      console.error('Error fetching caregiver names:', profilesError);
+    }
+    for (const profile of profiles || []) {
+      if (profile.full_name) names.set(profile.id, profile.full_name);
+    }
+  }
+
+  return rows.map((row) => mapCaregiverLinkRowToModel(row, names));
+}
+
+/**
+ * Create an invite as the patient; the database generates the code
+ */
+export async function createCaregiverInvite(patientId: string, permissions: CaregiverPermissions): Promise<CaregiverLink> {
+  const { data, error } = await supabase
+    .from('caregiver_links')
+    .insert({
+      patient_id: patientId,
+      can_view: permissions.canView,
+      can_edit: permissions.canEdit,
+      receive_alerts: permissions.receiveAlerts,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create invite: ${error.message}`);
+  }
+
+  return mapCaregiverLinkRowToModel(data as CaregiverLinkRow);
+}
+
+/**
+ * Accept an invite code as the signed-in caregiver
+ */
+export async function acceptCaregiverInvite(inviteCode: string): Promise<CaregiverLink> {
+  const { data, error } = await supabase.rpc('accept_caregiver_invite', {
+    p_invite_code: inviteCode,
+  });
+
+  if (error) {
+    throw new Error(`Failed to accept invite: ${error.message}`);
+  }
+
+  // No link comes back for an unknown or expired code
+  const link = data as CaregiverLinkRow | null;
+  if (!link?.id) {
+    throw new Error('Failed to accept invite: Invite code is invalid or has expired');
+  }
+
+  return mapCaregiverLinkRowToModel(link);
+}
+
+/**
+ * Change what a caregiver may do (patient only)
+ */
+export async function updateCaregiverPermissions(linkId: string, permissions: CaregiverPermissions): Promise<void> {
+  const { error } = await supabase
+    .from('caregiver_links')
+    .update({
+      can_view: permissions.canView,
+      can_edit: permissions.canEdit,
+      receive_alerts: permissions.receiveAlerts,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', linkId);
+
+  if (error) {
+    throw new Error(`Failed to update caregiver permissions: ${error.message}`);
+  }
+}
+
+/**
+ * End a link or cancel an invite (either side)
+ */
+export async function removeCaregiverLink(linkId: string): Promise<void> {
+  const { error } = await supabase
+    .from('caregiver_links')
+    .delete()
+    .eq('id', linkId);
+
+  if (error) {
+    throw new Error(`Failed to remove caregiver link: ${error.message}`);
+  }
+}
+
+/**
+ * Maps database row (snake_case) to domain model (camelCase)
+ */
+export function mapCaregiverAlertRowToModel(row: CaregiverAlertRow): CaregiverAlert {
+  return {
+    id: row.id,
+    patientId: row.patient_id,
+    patientName: row.patient_name,
+    doseDate: row.dose_date,
+    medicationNames: row.medication_names,
+    channel: row.channel,
+    status: row.status,
+    acknowledgedAt: row.acknowledged_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Fetch the missed-dose alerts sent to a caregiver that they haven't
+ * followed up yet, newest first
+ */
+export async function fetchCaregiverAlerts(caregiverId: string): Promise<CaregiverAlert[]> {
+  const { data, error } = await supabase
+    .from('caregiver_alerts')
+    .select('*')
+    .eq('caregiver_id', caregiverId)
+    .is('acknowledged_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch caregiver alerts: ${error.message}`);
+  }
+
+  return ((data || []) as CaregiverAlertRow[]).map(mapCaregiverAlertRowToModel);
+}
+
+/**
+ * Mark an alert as followed up by the signed-in caregiver
+ */
+export async function acknowledgeCaregiverAlert(alertId: string): Promise<CaregiverAlert> {
+  const { data, error } = await supabase.rpc('acknowledge_caregiver_alert', {
+    p_alert_id: alertId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to acknowledge alert: ${error.message}`);
+  }
+
+  return mapCaregiverAlertRowToModel(data as CaregiverAlertRow);
+}
@@ -4,7 +4,7 @@
  * Handles profile check for missing name (new users)
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -15,15 +15,41 @@ import {
   View,
 } from 'react-native';
 import { router } from 'expo-router';
+import { DEFAULT_SNOOZE_MINUTES } from '@/constants/notifications';
 import { useMedication } from '@/contexts/MedicationContext';
 import { useMedicationActions } from '@/features/medications/hooks/useMedicationActions';
+import { getDaysOfSupply } from '@/features/medications/utils/inventory';
+import { isDueToday } from '@/features/medications/utils/recurrence';
+import { getEffectiveDosage } from '@/features/medications/utils/taper';
+import { updateReminderChannel, updateSnoozeMinutes } from '@/features/profile/services/profileRepository';
 import { supabase } from '@/lib/supabase';
 import Home from '@/components/Home';
 import { ROUTES } from '@/constants/config';
+import type { ReminderChannel } from '@/types';
 
 export function HomeScreen() {
-  const { medications } = useMedication();
-  const { toggleTaken, deleteMedication } = useMedicationActions();
+  const { medications, syncStatus, viewingPatient, viewPatient } = useMedication();
+  const { toggleTaken, snoozeDose, deleteMedication } = useMedicationActions();
+
+  // Only schedules due today: hidden on recurrence days off (weekly, every
+  // N days, cyclic, monthly) and outside the course's start/end dates.
+  // Cards show today's dosage when the medication has a taper plan, and
+  // days of supply (from all of the medication's schedules) when tracked.
+  const todaysMedications = useMemo(
+    () =>
+      medications
+        .filter((med) => isDueToday(med))
+        .map((med) => {
+          const daysOfSupply = getDaysOfSupply(medications.filter((m) => m.medicationId === med.medicationId));
+          return {
+            ...med,
+            dosage: getEffectiveDosage(med),
+            daysOfSupply,
+            lowSupply: daysOfSupply !== null && daysOfSupply <= med.refillThresholdDays,
+          };
+        }),
+    [medications]
+  );
 
   // Profile state
   const [loading, setLoading] = useState(true);
@@ -32,6 +58,8 @@ export function HomeScreen() {
   const [saving, setSaving] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   const [userPhone, setUserPhone] = useState<string | null>(null);
+  const [snoozeMinutes, setSnoozeMinutes] = useState(DEFAULT_SNOOZE_MINUTES);
+  const [reminderChannel, setReminderChannel] = useState<ReminderChannel>('call');
 
   useEffect(() => {
     checkProfile();
@@ -51,7 +79,7 @@ export function HomeScreen() {
 
       const { data, error } = await supabase
         .from('profiles')
-        .select('full_name')
+        .select('full_name, snooze_minutes, reminder_channel')
         .eq('id', user.id)
         .maybeSingle();
 
@@ -59,6 +87,14 @@ export function HomeScreen() {
         console.error('Error checking profile:', error);
       }
 
+      if (data?.snooze_minutes) {
+        setSnoozeMinutes(data.snooze_minutes);
+      }
+
+      if (data?.reminder_channel === 'sms') {
+        setReminderChannel('sms');
+      }
+
       if (data?.full_name) {
         setProfileComplete(true);
       } else {
@@ -112,6 +148,50 @@ export function HomeScreen() {
     router.push(ROUTES.ADD_MEDICATION);
   };
 
+  const handleEditMed = (medicationId: string) => {
+    router.push({ pathname: ROUTES.EDIT_MEDICATION, params: { medicationId } });
+  };
+
+  const handleCaregiversClick = () => {
+    router.push(ROUTES.CAREGIVERS);
+  };
+
+  const handleStopViewing = () => {
+    viewPatient(null).catch((error) => console.error('Error switching back to own medications:', error));
+  };
+
+  const handleSnoozeMed = (id: string) => {
+    void snoozeDose(id, snoozeMinutes);
+  };
+
+  const handleSnoozeMinutesChange = async (minutes: number) => {
+    if (!userId) return;
+
+    const previous = snoozeMinutes;
+    setSnoozeMinutes(minutes);
+    try {
+      await updateSnoozeMinutes(userId, minutes);
+    } catch (error) {
+      console.error('Error saving snooze setting:', error);
+      setSnoozeMinutes(previous);
+      Alert.alert('Error', 'Failed to save snooze setting. Please try again.');
+    }
+  };
+
+  const handleReminderChannelChange = async (channel: ReminderChannel) => {
+    if (!userId) return;
+
+    const previous = reminderChannel;
+    setReminderChannel(channel);
+    try {
+      await updateReminderChannel(userId, channel);
+    } catch (error) {
+      console.error('Error saving reminder channel:', error);
+      setReminderChannel(previous);
+      Alert.alert('Error', 'Failed to save reminder setting. Please try again.');
+    }
+  };
+
   // Scenario A: Loading
   if (loading) {
     return (
@@ -171,10 +251,20 @@ export function HomeScreen() {
   // Scenario C: Profile Complete - Show Main Dashboard
   return (
     <Home
-      meds={medications}
+      meds={todaysMedications}
       onToggleMed={toggleTaken}
       onDeleteMed={deleteMedication}
+      onEditMed={handleEditMed}
+      onSnoozeMed={handleSnoozeMed}
+      snoozeMinutes={snoozeMinutes}
+      onSnoozeMinutesChange={handleSnoozeMinutesChange}
+      reminderChannel={reminderChannel}
+      onReminderChannelChange={handleReminderChannelChange}
       onAddClick={handleAddClick}
+      syncStatus={syncStatus}
+      viewingPatientName={viewingPatient ? viewingPatient.patientName || 'Patient' : null}
+      onStopViewing={handleStopViewing}
+      onCaregiversClick={handleCaregiversClick}
     />
   );
 }
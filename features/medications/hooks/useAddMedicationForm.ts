@@ -1,22 +1,188 @@
 /**
  * Add medication form hook
- * Manages form state, validation, and frequency/time slot logic
+ * Manages form state, validation, and dosage/frequency/time slot/recurrence/course/taper/inventory logic
+ * Pass a medication's schedules to pre-populate the form for editing
  */
 
 import { useState, useMemo } from 'react';
+import { DEFAULT_REFILL_THRESHOLD_DAYS } from '@/constants/config';
 import { DEFAULT_MEDICATION_TIMES, MAX_FREQUENCY_PER_DAY, MIN_FREQUENCY_PER_DAY } from '@/constants/time';
-import { isValidTime } from '../utils/time';
+import type { Dosage, DosageForm, DosageUnit, Medication, MedicationDraft, RecurrenceRule, TaperPlan } from '@/types';
+import { isCountableUnit } from '../utils/dosage';
+import { getDoseDate, isValidDate, isValidTime, shiftDate } from '../utils/time';
 
-export function useAddMedicationForm() {
-  const [name, setName] = useState('');
-  const [dosage, setDosage] = useState('');
-  const [frequency, setFrequency] = useState(1);
-  const [times, setTimes] = useState<string[]>(['08:00']);
+export type RecurrenceType = RecurrenceRule['type'];
+
+/**
+ * How a course ends: never, after N days, or on a given date
+ */
+export type CourseEndType = 'ongoing' | 'days' | 'date';
+
+/**
+ * Taper step as edited in the form (numbers kept as strings for TextInput)
+ */
+export interface TaperStepInput {
+  amount: string;
+  days: string;
+}
+
+const MAX_TAPER_STEPS = 10;
+
+function parseCount(value: string, min: number, max: number): number | null {
+  const n = parseInt(value.trim(), 10);
+  if (isNaN(n) || n < min || n > max) return null;
+  return n;
+}
+
+function parseAmount(value: string): number | null {
+  const n = parseFloat(value.trim().replace(',', '.'));
+  if (isNaN(n) || n <= 0 || n > 100000) return null;
+  return n;
+}
+
+export function useAddMedicationForm(initial?: Medication[]) {
+  const first = initial?.[0];
+  const rule = first?.recurrence;
+
+  const [name, setName] = useState(first?.name ?? '');
+  const [dosageAmount, setDosageAmount] = useState(first?.dosage ? String(first.dosage.amount) : '');
+  const [dosageUnit, setDosageUnit] = useState<DosageUnit>(first?.dosage?.unit ?? 'mg');
+  const [dosageForm, setDosageForm] = useState<DosageForm | null>(first?.dosage ? first.dosage.form : 'tablet');
+  const [frequency, setFrequency] = useState(initial?.length || 1);
+  const [times, setTimes] = useState<string[]>(() =>
+    initial?.length ? initial.map((med) => med.time).sort() : ['08:00']
+  );
+
+  // Recurrence (numbers kept as strings for TextInput)
+  const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>(rule?.type ?? 'daily');
+  const [weekdays, setWeekdays] = useState<number[]>(rule?.type === 'weekly' ? rule.weekdays : [1, 2, 3, 4, 5]);
+  const [everyDays, setEveryDays] = useState(rule?.type === 'interval' ? String(rule.everyDays) : '2');
+  const [daysOn, setDaysOn] = useState(rule?.type === 'cyclic' ? String(rule.daysOn) : '21');
+  const [daysOff, setDaysOff] = useState(rule?.type === 'cyclic' ? String(rule.daysOff) : '7');
+  const [dayOfMonth, setDayOfMonth] = useState(rule?.type === 'monthly' ? String(rule.dayOfMonth) : '1');
+
+  // Course window (dates are dose days, YYYY-MM-DD; empty start = today)
+  const [startDate, setStartDate] = useState(first?.startDate ?? '');
+  const [courseEndType, setCourseEndType] = useState<CourseEndType>(first?.endDate ? 'date' : 'ongoing');
+  const [courseDays, setCourseDays] = useState('7');
+  const [endDate, setEndDate] = useState(first?.endDate ?? '');
+
+  // Taper plan (dosage steps starting on the course start date)
+  const [taperEnabled, setTaperEnabled] = useState(Boolean(first?.taperPlan));
+  const [taperSteps, setTaperSteps] = useState<TaperStepInput[]>(() =>
+    first?.taperPlan
+      ? first.taperPlan.steps.map((step) => ({ amount: String(step.amount), days: String(step.days) }))
+      : [{ amount: '', days: '5' }]
+  );
+
+  // Inventory (empty count = not tracked)
+  const [inventoryCount, setInventoryCount] = useState(
+    first?.inventoryCount !== null && first?.inventoryCount !== undefined ? String(first.inventoryCount) : ''
+  );
+  const [unitsPerDose, setUnitsPerDose] = useState(String(first?.unitsPerDose ?? 1));
+  const [refillThresholdDays, setRefillThresholdDays] = useState(
+    String(first?.refillThresholdDays ?? DEFAULT_REFILL_THRESHOLD_DAYS)
+  );
+  const [refillInCall, setRefillInCall] = useState(first?.refillInCall ?? true);
+
+  const dosage = useMemo((): Dosage | null => {
+    const amount = parseAmount(dosageAmount);
+    return amount ? { amount, unit: dosageUnit, form: dosageForm } : null;
+  }, [dosageAmount, dosageUnit, dosageForm]);
+
+  const course = useMemo((): { startDate: string | null; endDate: string | null } | null => {
+    const start = startDate.trim();
+    if (start.length > 0 && !isValidDate(start)) return null;
+    const firstDay = start || getDoseDate();
+
+    switch (courseEndType) {
+      case 'days': {
+        const n = parseCount(courseDays, 1, 365);
+        return n ? { startDate: start || null, endDate: shiftDate(firstDay, n - 1) } : null;
+      }
+      case 'date': {
+        const end = endDate.trim();
+        return isValidDate(end) && end >= firstDay ? { startDate: start || null, endDate: end } : null;
+      }
+      default:
+        return { startDate: start || null, endDate: null };
+    }
+  }, [startDate, courseEndType, courseDays, endDate]);
+
+  const recurrence = useMemo((): RecurrenceRule | null => {
+    // Interval and cyclic regimens start counting from the course start
+    // (or where an edited rule already counted from, or today)
+    const startDate = course?.startDate || (rule && 'startDate' in rule ? rule.startDate : null) || getDoseDate();
+
+    switch (recurrenceType) {
+      case 'weekly':
+        return weekdays.length > 0 ? { type: 'weekly', weekdays } : null;
+      case 'interval': {
+        const n = parseCount(everyDays, 1, 365);
+        return n ? { type: 'interval', everyDays: n, startDate } : null;
+      }
+      case 'cyclic': {
+        const on = parseCount(daysOn, 1, 365);
+        const off = parseCount(daysOff, 0, 365);
+        return on !== null && off !== null ? { type: 'cyclic', daysOn: on, daysOff: off, startDate } : null;
+      }
+      case 'monthly': {
+        const day = parseCount(dayOfMonth, 1, 31);
+        return day ? { type: 'monthly', dayOfMonth: day } : null;
+      }
+      default:
+        return { type: 'daily' };
+    }
+  }, [recurrenceType, weekdays, everyDays, daysOn, daysOff, dayOfMonth, course, rule]);
+
+  // undefined = enabled but incomplete (blocks saving)
+  const taperPlan = useMemo((): TaperPlan | null | undefined => {
+    if (!taperEnabled) return null;
+
+    const steps = taperSteps.map((step) => ({
+      amount: parseAmount(step.amount),
+      days: parseCount(step.days, 1, 365),
+    }));
+    if (steps.some((step) => step.amount === null || step.days === null)) return undefined;
+
+    return {
+      startDate: course?.startDate || first?.taperPlan?.startDate || getDoseDate(),
+      steps: steps.map((step) => ({ amount: step.amount as number, days: step.days as number })),
+    };
+  }, [taperEnabled, taperSteps, course, first]);
+
+  // null = invalid input (blocks saving)
+  // Countable units (tablets, puffs) use the dosage amount as units per dose
+  const inventory = useMemo(() => {
+    const units = isCountableUnit(dosageUnit) ? dosage?.amount ?? 1 : parseCount(unitsPerDose, 1, 100);
+    const threshold = parseCount(refillThresholdDays, 0, 365);
+    if (units === null || threshold === null) return null;
+
+    const count = inventoryCount.trim();
+    const parsedCount = count.length > 0 ? parseCount(count, 0, 100000) : null;
+    if (count.length > 0 && parsedCount === null) return null;
+
+    return {
+      inventoryCount: parsedCount,
+      unitsPerDose: units,
+      refillThresholdDays: threshold,
+      refillInCall,
+    };
+  }, [inventoryCount, unitsPerDose, refillThresholdDays, refillInCall, dosage, dosageUnit]);
 
   const canSave = useMemo(() => {
     const allTimesValid = times.every((t) => isValidTime(t.trim()));
-    return name.trim().length > 0 && dosage.trim().length > 0 && allTimesValid && times.length > 0;
-  }, [name, dosage, times]);
+    return (
+      name.trim().length > 0 &&
+      dosage !== null &&
+      allTimesValid &&
+      times.length > 0 &&
+      recurrence !== null &&
+      course !== null &&
+      taperPlan !== undefined &&
+      inventory !== null
+    );
+  }, [name, dosage, times, recurrence, course, taperPlan, inventory]);
 
   const handleFrequencyChange = (delta: number) => {
     const newFrequency = Math.max(MIN_FREQUENCY_PER_DAY, Math.min(MAX_FREQUENCY_PER_DAY, frequency + delta));
@@ -42,19 +208,82 @@ export function useAddMedicationForm() {
     setTimes(newTimes);
   };
 
-  const getFormData = () => ({
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const addTaperStep = () => {
+    setTaperSteps((prev) =>
+      prev.length >= MAX_TAPER_STEPS ? prev : [...prev, { amount: '', days: prev[prev.length - 1]?.days || '5' }]
+    );
+  };
+
+  const removeTaperStep = (index: number) => {
+    setTaperSteps((prev) => (prev.length <= 1 ? prev : prev.filter((_, i) => i !== index)));
+  };
+
+  const updateTaperStep = (index: number, field: keyof TaperStepInput, value: string) => {
+    setTaperSteps((prev) => prev.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const getFormData = (): MedicationDraft => ({
     name: name.trim(),
-    dosage: dosage.trim(),
+    dosage: dosage ?? { amount: 1, unit: dosageUnit, form: dosageForm },
     times: times.map((t) => t.trim()),
+    recurrence: recurrence ?? { type: 'daily' },
+    startDate: course?.startDate ?? null,
+    endDate: course?.endDate ?? null,
+    taperPlan: taperPlan ?? null,
+    ...inventory,
   });
 
   return {
     name,
     setName,
-    dosage,
-    setDosage,
+    dosageAmount,
+    setDosageAmount,
+    dosageUnit,
+    setDosageUnit,
+    dosageForm,
+    setDosageForm,
     frequency,
     times,
+    recurrenceType,
+    setRecurrenceType,
+    weekdays,
+    toggleWeekday,
+    everyDays,
+    setEveryDays,
+    daysOn,
+    setDaysOn,
+    daysOff,
+    setDaysOff,
+    dayOfMonth,
+    setDayOfMonth,
+    startDate,
+    setStartDate,
+    courseEndType,
+    setCourseEndType,
+    courseDays,
+    setCourseDays,
+    endDate,
+    setEndDate,
+    taperEnabled,
+    setTaperEnabled,
+    taperSteps,
+    addTaperStep,
+    removeTaperStep,
+    updateTaperStep,
+    inventoryCount,
+    setInventoryCount,
+    unitsPerDose,
+    setUnitsPerDose,
+    refillThresholdDays,
+    setRefillThresholdDays,
+    refillInCall,
+    setRefillInCall,
     canSave,
     handleFrequencyChange,
     handleTimeChange,
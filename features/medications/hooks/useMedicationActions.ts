@@ -7,11 +7,17 @@ import { Alert } from 'react-native';
 import { useMedication } from '@/contexts/MedicationContext';
 
 export function useMedicationActions() {
-  const { medications, updateMedicationStatus, deleteMedication: deleteMed } = useMedication();
+  const { medications, updateMedicationStatus, snoozeMedication, deleteMedication: deleteMed, canEdit } = useMedication();
+
+  // A caregiver with view-only access to a linked patient
+  const alertViewOnly = () => {
+    Alert.alert('View only', 'You can view these medications but not change them.');
+  };
 
   const toggleTaken = async (id: string): Promise<void> => {
     const med = medications.find((m) => m.id === id);
     if (!med) return;
+    if (!canEdit) return alertViewOnly();
 
     try {
       await updateMedicationStatus(id, !med.isTaken);
@@ -20,9 +26,19 @@ export function useMedicationActions() {
     }
   };
 
-  const deleteMedication = async (id: string): Promise<void> => {
+  const snoozeDose = async (id: string, snoozeMinutes: number): Promise<void> => {
+    if (!canEdit) return alertViewOnly();
+    try {
+      await snoozeMedication(id, Date.now() + snoozeMinutes * 60 * 1000);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to snooze medication. Please try again.');
+    }
+  };
+
+  const deleteMedication = async (medicationId: string): Promise<void> => {
+    if (!canEdit) return alertViewOnly();
     try {
-      await deleteMed(id);
+      await deleteMed(medicationId);
     } catch (error) {
       Alert.alert('Error', 'Failed to delete medication. Please try again.');
     }
@@ -30,6 +46,7 @@ export function useMedicationActions() {
 
   return {
     toggleTaken,
+    snoozeDose,
     deleteMedication,
   };
 }
@@ -0,0 +1,108 @@
+/**
+ * Pending medication actions hook
+ * Applies Take/Snooze presses queued by the notifee background handler
+ * (lib/pendingMedicationActions.ts) on app start and whenever the app
+ * becomes active again. Waits while a caregiver is viewing a linked
+ * patient, since the presses are for the user's own doses.
+ *
+ * Presses for the same dose are coalesced and only the last one is applied,
+ * since the medication state read for the batch does not reflect the
+ * earlier ones. Actions leave the queue only once they have been applied.
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { DEFAULT_SNOOZE_MINUTES } from '@/constants/notifications';
+import { useMedication } from '@/contexts/MedicationContext';
+import { fetchSnoozeMinutes } from '@/features/profile/services/profileRepository';
+import { readPendingActions, removePendingActions } from '@/lib/pendingMedicationActions';
+import { logger } from '@/lib/logger';
+import type { PendingMedicationAction } from '@/types';
+import { getDoseDate } from '../utils/time';
+
+const MINUTE_MS = 60 * 1000;
+
+// Never ring a snoozed alarm sooner than this after the app picks it up
+const MIN_SNOOZE_DELAY_MS = 5 * 1000;
+
+export function usePendingMedicationActions() {
+  const medicationContext = useMedication();
+  const contextRef = useRef(medicationContext);
+  const processingRef = useRef(false);
+
+  contextRef.current = medicationContext;
+  const paused = medicationContext.loading || medicationContext.viewingPatient !== null;
+
+  useEffect(() => {
+    if (paused) return;
+
+    const processPendingActions = async () => {
+      // Prevent overlapping runs (app start + AppState change)
+      if (processingRef.current) return;
+      processingRef.current = true;
+
+      try {
+        const actions = await readPendingActions();
+        if (actions.length === 0) return;
+
+        logger.info('Processing pending medication actions', { count: actions.length });
+
+        // Last press per dose wins (actions are oldest first)
+        const byDose = new Map<string, PendingMedicationAction[]>();
+        for (const action of actions) {
+          byDose.set(action.medicationId, [...(byDose.get(action.medicationId) ?? []), action]);
+        }
+
+        for (const presses of byDose.values()) {
+          try {
+            await applyAction(presses[presses.length - 1]);
+            await removePendingActions(presses);
+          } catch (error) {
+            // Left queued - retried on the next start / foreground
+            logger.error('Failed to apply pending medication action', error);
+          }
+        }
+      } catch (error) {
+        logger.error('Failed to process pending medication actions', error);
+      } finally {
+        processingRef.current = false;
+      }
+    };
+
+    const applyAction = async (action: PendingMedicationAction) => {
+      const { medications, updateMedicationStatus, snoozeMedication } = contextRef.current;
+      const med = medications.find((m) => m.id === action.medicationId);
+
+      // Deleted medication, or a press from a dose day that has since been rolled over
+      if (!med || getDoseDate(new Date(action.timestamp)) !== getDoseDate()) {
+        logger.debug('Dropping stale pending medication action', action);
+        return;
+      }
+
+      if (action.action === 'take') {
+        if (!med.isTaken) {
+          await updateMedicationStatus(med.id, true);
+        }
+        return;
+      }
+
+      if (!med.isTaken) {
+        const snoozeMinutes = med.user_id ? await fetchSnoozeMinutes(med.user_id) : DEFAULT_SNOOZE_MINUTES;
+        const snoozeUntil = Math.max(action.timestamp + snoozeMinutes * MINUTE_MS, Date.now() + MIN_SNOOZE_DELAY_MS);
+        await snoozeMedication(med.id, snoozeUntil);
+      }
+    };
+
+    void processPendingActions();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void processPendingActions();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [paused]);
+}
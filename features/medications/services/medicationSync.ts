@@ -0,0 +1,84 @@
+/**
+ * Medication sync
+ * Replays the offline outbox (lib/medicationOutbox.ts) against Supabase,
+ * oldest change first.
+ *
+ * - add: upserts the medication and its schedules on the ids chosen when it
+ *   was queued, so sending it twice is harmless
+ * - toggle: recorded with recordQueuedDoseStatus (newest change wins), and
+ *   the inventory only moves when the toggle was actually applied
+ * - delete: deletes the medication
+ *
+ * Replay stops at the first network error, leaving the rest queued. A change
+ * the server rejects for any other reason is dropped, as retrying cannot help.
+ */
+
+import { logger } from '@/lib/logger';
+import { isNetworkError, readOutbox, updateOutbox } from '@/lib/medicationOutbox';
+import type { MedicationMutation } from '@/types';
+import * as medicationsRepository from './medicationsRepository';
+
+export interface OutboxReplayResult {
+  offline: boolean; // Stopped because the server could not be reached
+  remaining: number; // Changes still queued
+}
+
+export async function replayOutbox(): Promise<OutboxReplayResult> {
+  let queue = await readOutbox();
+
+  while (queue.length > 0) {
+    const mutation = queue[0];
+
+    try {
+      await applyMutation(mutation);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return { offline: true, remaining: queue.length };
+      }
+      logger.error(`Dropping queued ${mutation.type} the server rejected`, error);
+    }
+
+    queue = await updateOutbox((current) => current.filter((m) => m.id !== mutation.id));
+  }
+
+  return { offline: false, remaining: 0 };
+}
+
+/**
+ * Apply one queued change
+ */
+async function applyMutation(mutation: MedicationMutation): Promise<void> {
+  switch (mutation.type) {
+    case 'add':
+      await medicationsRepository.upsertQueuedMedication(
+        mutation.userId,
+        mutation.draft,
+        mutation.medicationId,
+        mutation.scheduleIds
+      );
+      break;
+
+    case 'toggle': {
+      const result = await medicationsRepository.recordQueuedDoseStatus(
+        mutation.schedule,
+        mutation.isTaken,
+        mutation.createdAt,
+        mutation.doseDate
+      );
+      if (result === 'applied') {
+        // The dose is recorded either way - a failed count update is not retried
+        const units = mutation.schedule.unitsPerDose;
+        await medicationsRepository
+          .adjustInventory(mutation.schedule.medicationId, mutation.isTaken ? -units : units)
+          .catch((error) => logger.error('Error updating inventory for queued toggle', error));
+      } else {
+        logger.debug('Queued toggle kept server state', { scheduleId: mutation.schedule.id, result });
+      }
+      break;
+    }
+
+    case 'delete':
+      await medicationsRepository.deleteMedication(mutation.medicationId);
+      break;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Medications realtime
+ * Subscribes to Supabase Realtime changes on a user's medications,
+ * medication_schedules and dose_events, so changes made elsewhere (the IVR,
+ * daily-rollover, another device) reach the open app.
+ *
+ * Tables must be in the supabase_realtime publication
+ * (supabase/migrations/20260801001300_add_medications_realtime.sql).
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { DoseEvent } from '@/types';
+import type { DoseEventRow, MedicationRow, MedicationScheduleRow } from '@/types/supabase';
+import { mapDoseEventRowToModel } from './medicationsRepository';
+
+export interface MedicationChangeHandlers {
+  // A medication or one of its schedules was inserted or updated
+  onMedicationChanged: (medicationId: string) => void;
+  onMedicationDeleted: (medicationId: string) => void;
+  onScheduleDeleted: (scheduleId: string) => void;
+  onDoseEvent: (event: DoseEvent) => void;
+  // Channel (re)connected - changes may have been missed while it was down
+  onSubscribed: () => void;
+}
+
+/**
+ * Subscribe to a user's medication changes
+ * Returns an unsubscribe function that removes the channel
+ */
+export function subscribeToMedicationChanges(userId: string, handlers: MedicationChangeHandlers): () => void {
+  const filter = `user_id=eq.${userId}`;
+
+  const channel = supabase
+    .channel(`medications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'medications', filter },
+      (payload: RealtimePostgresChangesPayload<MedicationRow>) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old.id) handlers.onMedicationDeleted(payload.old.id);
+        } else {
+          handlers.onMedicationChanged(payload.new.id);
+        }
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'medication_schedules', filter },
+      (payload: RealtimePostgresChangesPayload<MedicationScheduleRow>) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old.id) handlers.onScheduleDeleted(payload.old.id);
+        } else {
+          handlers.onMedicationChanged(payload.new.medication_id);
+        }
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'dose_events', filter },
+      (payload: RealtimePostgresChangesPayload<DoseEventRow>) => {
+        if (payload.eventType !== 'DELETE') {
+          handlers.onDoseEvent(mapDoseEventRowToModel(payload.new));
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        handlers.onSubscribed();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Medications realtime channel ${status}:`, error);
+      }
+    });
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
@@ -2,98 +2,639 @@
  * Medications repository
  * Handles all database operations for medications
  * Separated from context to follow clean architecture principles
+ *
+ * Schema: medications (name, dosage) -> medication_schedules (one row per time)
+ * medications.dosage keeps the display text alongside the structured dosage_* columns
  */
 
+import { DEFAULT_REFILL_THRESHOLD_DAYS } from '@/constants/config';
+import { isNetworkError } from '@/lib/medicationOutbox';
 import { supabase } from '@/lib/supabase';
-import type { Medication, MedicationDraft } from '@/types';
-import type { MedicationRow, NewMedicationRow } from '@/types/supabase';
+import type { DoseEvent, DoseSource, DoseStatus, Medication, MedicationDraft } from '@/types';
+import type {
+  DoseEventRow,
+  MedicationRow,
+  MedicationScheduleRow,
+  MedicationWithSchedulesRow,
+  NewDoseEventRow,
+  NewMedicationRow,
+  NewMedicationScheduleRow,
+} from '@/types/supabase';
+import { formatDosage } from '../utils/dosage';
+import { DAILY_RECURRENCE } from '../utils/recurrence';
+import { getDoseDate } from '../utils/time';
 
 /**
- * Maps database row (snake_case) to domain model (camelCase)
+ * Maps database row (snake_case) to domain models (camelCase)
+ * Produces one Medication entry per schedule time
  */
-export function mapMedicationRowToModel(row: MedicationRow): Medication {
-  return {
-    id: row.id,
+export function mapMedicationRowToModels(row: MedicationWithSchedulesRow): Medication[] {
+  return (row.medication_schedules || []).map((schedule) => ({
+    id: schedule.id,
+    medicationId: row.id,
     name: row.name,
-    dosage: row.dosage,
-    time: row.time,
-    isTaken: row.is_taken,
+    dosage: row.dosage_amount !== null && row.dosage_unit
+      ? { amount: Number(row.dosage_amount), unit: row.dosage_unit, form: row.dosage_form }
+      : null,
+    dosageText: row.dosage,
+    time: schedule.time,
+    recurrence: schedule.recurrence,
+    taperPlan: row.taper_plan,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    inventoryCount: row.inventory_count,
+    unitsPerDose: row.units_per_dose,
+    refillThresholdDays: row.refill_threshold_days,
+    refillInCall: row.refill_in_call,
+    isTaken: schedule.is_taken,
+    snoozedUntil: schedule.snoozed_until,
     user_id: row.user_id,
     created_at: row.created_at,
+  }));
+}
+
+/**
+ * Maps dose event row (snake_case) to domain model (camelCase)
+ */
+export function mapDoseEventRowToModel(row: DoseEventRow): DoseEvent {
+  return {
+    id: row.id,
+    medicationId: row.medication_id,
+    scheduleId: row.schedule_id,
+    doseDate: row.dose_date,
+    scheduledTime: row.scheduled_time,
+    status: row.status,
+    takenAt: row.taken_at,
+    source: row.source,
   };
 }
 
 /**
- * Fetch all medications for a user
+ * Fetch all active medications for a user (flattened to one entry per schedule time)
+ * Taken state comes from today's dose events, not the legacy is_taken flag
+ * Finished courses (archived by daily-rollover) are excluded
  */
 export async function fetchMedications(userId: string): Promise<Medication[]> {
   const { data, error } = await supabase
     .from('medications')
-    .select('*')
+    .select('*, medication_schedules(*)')
     .eq('user_id', userId)
-    .order('time', { ascending: true });
+    .is('archived_at', null)
+    .order('created_at', { ascending: true });
 
   if (error) {
     throw new Error(`Failed to fetch medications: ${error.message}`);
   }
 
-  return (data || []).map(mapMedicationRowToModel);
+  const doseDate = getDoseDate();
+  const events = await fetchDoseEvents(userId, doseDate, doseDate);
+  const statusBySchedule = new Map(events.map((e) => [e.scheduleId, e.status]));
+
+  return ((data || []) as MedicationWithSchedulesRow[])
+    .flatMap(mapMedicationRowToModels)
+    .map((med) => ({ ...med, isTaken: statusBySchedule.get(med.id) === 'taken' }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Fetch one medication's schedules with today's taken state
+ * Returns [] if the medication was deleted or archived
+ */
+export async function fetchMedicationById(medicationId: string): Promise<Medication[]> {
+  const { data, error } = await supabase
+    .from('medications')
+    .select('*, medication_schedules(*)')
+    .eq('id', medicationId)
+    .is('archived_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch medication: ${error.message}`);
+  }
+
+  if (!data) return [];
+
+  const row = data as MedicationWithSchedulesRow;
+  const doseDate = getDoseDate();
+  const events = await fetchDoseEvents(row.user_id, doseDate, doseDate);
+  const statusBySchedule = new Map(events.map((e) => [e.scheduleId, e.status]));
+
+  return mapMedicationRowToModels(row).map((med) => ({
+    ...med,
+    isTaken: statusBySchedule.get(med.id) === 'taken',
+  }));
+}
+
+/**
+ * Fetch dose history for a user within an inclusive dose-day range
+ */
+export async function fetchDoseEvents(
+  userId: string,
+  fromDate: string,
+  toDate: string
+): Promise<DoseEvent[]> {
+  const { data, error } = await supabase
+    .from('dose_events')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('dose_date', fromDate)
+    .lte('dose_date', toDate)
+    .order('dose_date', { ascending: false })
+    .order('scheduled_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch dose history: ${error.message}`);
+  }
+
+  return (data || []).map(mapDoseEventRowToModel);
+}
+
+function mapDraftToRow(userId: string, draft: MedicationDraft): NewMedicationRow {
+  return {
+    name: draft.name,
+    dosage: formatDosage(draft.dosage),
+    dosage_amount: draft.dosage.amount,
+    dosage_unit: draft.dosage.unit,
+    dosage_form: draft.dosage.form,
+    user_id: userId,
+    start_date: draft.startDate ?? null,
+    end_date: draft.endDate ?? null,
+    taper_plan: draft.taperPlan ?? null,
+    inventory_count: draft.inventoryCount ?? null,
+    units_per_dose: draft.unitsPerDose ?? 1,
+    refill_threshold_days: draft.refillThresholdDays ?? DEFAULT_REFILL_THRESHOLD_DAYS,
+    refill_in_call: draft.refillInCall ?? true,
+  };
+}
+
+/**
+ * Build entries for a medication added while offline
+ * Uses the ids the outbox will insert it with (see upsertQueuedMedication).
+ */
+export function mapDraftToLocalModels(
+  userId: string,
+  draft: MedicationDraft,
+  medicationId: string,
+  scheduleIds: string[]
+): Medication[] {
+  const row = mapDraftToRow(userId, draft);
+  return mapMedicationRowToModels({
+    ...row,
+    id: medicationId,
+    refill_call_mentioned_at: null,
+    archived_at: null,
+    created_at: new Date().toISOString(),
+    medication_schedules: draft.times.map((time, index) => ({
+      id: scheduleIds[index],
+      medication_id: medicationId,
+      user_id: userId,
+      time,
+      recurrence: draft.recurrence ?? DAILY_RECURRENCE,
+      is_taken: false,
+      snoozed_until: null,
+    })),
+  });
 }
 
 /**
- * Insert new medications (one for each time slot)
+ * Insert a new medication with one schedule per time slot
  */
 export async function insertMedications(
   userId: string,
   draft: MedicationDraft
 ): Promise<Medication[]> {
-  const newMedications: NewMedicationRow[] = draft.times.map((time) => ({
-    name: draft.name,
-    dosage: draft.dosage,
+  const newMedication = mapDraftToRow(userId, draft);
+
+  const { data: medication, error } = await supabase
+    .from('medications')
+    .insert(newMedication)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to insert medications: ${error.message}`);
+  }
+
+  const newSchedules: NewMedicationScheduleRow[] = draft.times.map((time) => ({
+    medication_id: medication.id,
+    user_id: userId,
     time: time,
+    recurrence: draft.recurrence ?? DAILY_RECURRENCE,
     is_taken: false,
-    user_id: userId,
   }));
 
-  const { data, error } = await supabase
-    .from('medications')
-    .insert(newMedications)
+  const { data: schedules, error: schedulesError } = await supabase
+    .from('medication_schedules')
+    .insert(newSchedules)
     .select();
 
+  if (schedulesError) {
+    // Don't leave a medication with no times behind
+    await supabase.from('medications').delete().eq('id', medication.id);
+    throw new Error(`Failed to insert medications: ${schedulesError.message}`);
+  }
+
+  return mapMedicationRowToModels({ ...medication, medication_schedules: schedules || [] });
+}
+
+/**
+ * Insert a medication added offline, with the ids it was given when queued
+ *
+ * Upserts on those ids and leaves existing rows alone, so replaying the same
+ * queued add (e.g. after the response was lost) never creates a duplicate,
+ * and a replay after a failure between the two inserts adds the missing
+ * schedules.
+ */
+export async function upsertQueuedMedication(
+  userId: string,
+  draft: MedicationDraft,
+  medicationId: string,
+  scheduleIds: string[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('medications')
+    .upsert({ ...mapDraftToRow(userId, draft), id: medicationId }, { onConflict: 'id', ignoreDuplicates: true });
+
   if (error) {
     throw new Error(`Failed to insert medications: ${error.message}`);
   }
 
-  return (data || []).map(mapMedicationRowToModel);
+  const newSchedules: NewMedicationScheduleRow[] = draft.times.map((time, index) => ({
+    id: scheduleIds[index],
+    medication_id: medicationId,
+    user_id: userId,
+    time,
+    recurrence: draft.recurrence ?? DAILY_RECURRENCE,
+    is_taken: false,
+  }));
+
+  const { error: schedulesError } = await supabase
+    .from('medication_schedules')
+    .upsert(newSchedules, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (schedulesError) {
+    // Rejected (not just unreachable): the add is dropped, so don't leave a
+    // medication with no times behind
+    if (!isNetworkError(schedulesError.message)) {
+      await supabase.from('medications').delete().eq('id', medicationId);
+    }
+    throw new Error(`Failed to insert medications: ${schedulesError.message}`);
+  }
 }
 
 /**
- * Update medication taken status
+ * Update a medication and its schedule times in place
+ *
+ * Schedule rows are kept wherever possible so their dose history survives:
+ * - a time that is still in the draft keeps its row untouched
+ * - a changed time reuses a row whose time was removed, and today's state
+ *   is cleared so the new time is a fresh dose: the call state
+ *   (last_called_at / retry_count / snoozed_until / caregiver_alerted_at /
+ *   failed_dial_count), is_taken, and today's dose event (back to pending at
+ *   the new time, giving back the units a 'taken' used unless the edit sets
+ *   the inventory count itself)
+ * - leftover rows are deleted, leftover times are inserted
+ *
+ * A higher inventory count counts as a restock and re-arms the refill
+ * mention in calls (refill_call_mentioned_at).
+ *
+ * @param schedules - current entries of this medication (one per time)
  */
-export async function updateMedicationTaken(
-  id: string,
-  isTaken: boolean
-): Promise<void> {
+export async function updateMedication(
+  medicationId: string,
+  draft: MedicationDraft,
+  schedules: Medication[]
+): Promise<Medication[]> {
+  const userId = schedules[0]?.user_id;
+  if (!userId) {
+    throw new Error('Failed to update medication: missing user id');
+  }
+
+  const previousCount = schedules[0].inventoryCount;
+  const inventoryCount = draft.inventoryCount ?? null;
+  const restocked = inventoryCount !== null && (previousCount === null || inventoryCount > previousCount);
+
   const { error } = await supabase
     .from('medications')
-    .update({ is_taken: isTaken })
-    .eq('id', id);
+    .update({
+      name: draft.name,
+      dosage: formatDosage(draft.dosage),
+      dosage_amount: draft.dosage.amount,
+      dosage_unit: draft.dosage.unit,
+      dosage_form: draft.dosage.form,
+      start_date: draft.startDate ?? null,
+      end_date: draft.endDate ?? null,
+      taper_plan: draft.taperPlan ?? null,
+      inventory_count: inventoryCount,
+      units_per_dose: draft.unitsPerDose ?? 1,
+      refill_threshold_days: draft.refillThresholdDays ?? DEFAULT_REFILL_THRESHOLD_DAYS,
+      refill_in_call: draft.refillInCall ?? true,
+      ...(restocked ? { refill_call_mentioned_at: null } : {}),
+    })
+    .eq('id', medicationId);
+
+  if (error) {
+    throw new Error(`Failed to update medication: ${error.message}`);
+  }
+
+  const recurrence = draft.recurrence ?? DAILY_RECURRENCE;
+  const kept = schedules.filter((schedule) => draft.times.includes(schedule.time));
+  const freed = schedules.filter((schedule) => !draft.times.includes(schedule.time));
+  const addedTimes = draft.times.filter((time) => !schedules.some((schedule) => schedule.time === time));
+
+  const moved = freed.slice(0, addedTimes.length);
+  const removed = freed.slice(addedTimes.length);
+  const inserted = addedTimes.slice(moved.length);
+
+  if (kept.length > 0) {
+    const { error: keptError } = await supabase
+      .from('medication_schedules')
+      .update({ recurrence })
+      .in('id', kept.map((schedule) => schedule.id));
+
+    if (keptError) {
+      throw new Error(`Failed to update medication: ${keptError.message}`);
+    }
+  }
+
+  for (const [index, schedule] of moved.entries()) {
+    const { error: moveError } = await supabase
+      .from('medication_schedules')
+      .update({
+        time: addedTimes[index],
+        recurrence,
+        is_taken: false,
+        last_called_at: null,
+        retry_count: 0,
+        snoozed_until: null,
+        caregiver_alerted_at: null,
+        failed_dial_count: 0,
+      })
+      .eq('id', schedule.id);
+
+    if (moveError) {
+      throw new Error(`Failed to update medication: ${moveError.message}`);
+    }
+
+    const { data: resetEvents, error: eventError } = await supabase
+      .from('dose_events')
+      .update({
+        status: 'pending',
+        taken_at: null,
+        scheduled_time: addedTimes[index],
+        updated_at: new Date().toISOString(),
+      })
+      .eq('schedule_id', schedule.id)
+      .eq('dose_date', getDoseDate())
+      .select('id');
+
+    if (eventError) {
+      throw new Error(`Failed to update medication: ${eventError.message}`);
+    }
+
+    if (schedule.isTaken && (resetEvents || []).length > 0 && inventoryCount !== null && inventoryCount === previousCount) {
+      await adjustInventory(medicationId, schedule.unitsPerDose);
+    }
+  }
+
+  if (removed.length > 0) {
+    const { error: removeError } = await supabase
+      .from('medication_schedules')
+      .delete()
+      .in('id', removed.map((schedule) => schedule.id));
+
+    if (removeError) {
+      throw new Error(`Failed to update medication: ${removeError.message}`);
+    }
+  }
+
+  if (inserted.length > 0) {
+    const newSchedules: NewMedicationScheduleRow[] = inserted.map((time) => ({
+      medication_id: medicationId,
+      user_id: userId,
+      time,
+      recurrence,
+      is_taken: false,
+    }));
+
+    const { error: insertError } = await supabase.from('medication_schedules').insert(newSchedules);
+
+    if (insertError) {
+      throw new Error(`Failed to update medication: ${insertError.message}`);
+    }
+  }
+
+  // Read back like any later refresh would (taken state from today's dose
+  // events), so a moved time can't show as taken until the next fetch only
+  const updated = await fetchMedicationById(medicationId);
+  const stillTaken = updated.filter((med) => med.isTaken && moved.some((schedule) => schedule.id === med.id));
+  if (stillTaken.length > 0) {
+    throw new Error('Failed to update medication: moved times are still marked as taken');
+  }
+
+  return updated;
+}
+
+/**
+ * Record the status of today's dose for a medication schedule
+ *
+ * Upserts the dose_events row for the current dose day, then mirrors the
+ * result onto medication_schedules.is_taken, which the server scheduler reads.
+ */
+export async function recordDoseStatus(
+  medication: Pick<Medication, 'id' | 'medicationId' | 'time' | 'user_id'>,
+  status: DoseStatus,
+  source: DoseSource = 'app'
+): Promise<DoseEvent> {
+  if (!medication.user_id) {
+    throw new Error('Failed to update medication: missing user id');
+  }
+
+  const event: NewDoseEventRow = {
+    medication_id: medication.medicationId,
+    schedule_id: medication.id,
+    user_id: medication.user_id,
+    dose_date: getDoseDate(),
+    scheduled_time: medication.time,
+    status,
+    taken_at: status === 'taken' ? new Date().toISOString() : null,
+    source,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabase
+    .from('dose_events')
+    .upsert(event, { onConflict: 'schedule_id,dose_date' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update medication: ${error.message}`);
+  }
+
+  const { error: mirrorError } = await supabase
+    .from('medication_schedules')
+    .update({ is_taken: status === 'taken' })
+    .eq('id', medication.id);
+
+  if (mirrorError) {
+    throw new Error(`Failed to update medication: ${mirrorError.message}`);
+  }
+
+  return mapDoseEventRowToModel(data as DoseEventRow);
+}
+
+/**
+ * Record a taken / not-taken toggle made offline, replayed by the outbox
+ *
+ * Conflict rule: the newest change wins. If the dose event was updated on the
+ * server (IVR, another device) after the toggle was made, the server state is
+ * kept and 'superseded' returned. A toggle matching the server state is
+ * 'unchanged'. Only 'applied' toggles should move the inventory.
+ * is_taken is only mirrored when the toggle is for the current dose day.
+ */
+export async function recordQueuedDoseStatus(
+  medication: Pick<Medication, 'id' | 'medicationId' | 'time' | 'user_id'>,
+  isTaken: boolean,
+  changedAt: number,
+  doseDate: string
+): Promise<'applied' | 'unchanged' | 'superseded'> {
+  if (!medication.user_id) {
+    throw new Error('Failed to update medication: missing user id');
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('dose_events')
+    .select('status, updated_at')
+    .eq('schedule_id', medication.id)
+    .eq('dose_date', doseDate)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to update medication: ${fetchError.message}`);
+  }
+
+  if (existing?.updated_at && new Date(existing.updated_at).getTime() > changedAt) {
+    return 'superseded';
+  }
+
+  if ((existing?.status === 'taken') === isTaken) {
+    return 'unchanged';
+  }
+
+  const event: NewDoseEventRow = {
+    medication_id: medication.medicationId,
+    schedule_id: medication.id,
+    user_id: medication.user_id,
+    dose_date: doseDate,
+    scheduled_time: medication.time,
+    status: isTaken ? 'taken' : 'pending',
+    taken_at: isTaken ? new Date(changedAt).toISOString() : null,
+    source: 'app',
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase.from('dose_events').upsert(event, { onConflict: 'schedule_id,dose_date' });
 
   if (error) {
     throw new Error(`Failed to update medication: ${error.message}`);
   }
+
+  if (doseDate === getDoseDate()) {
+    const { error: mirrorError } = await supabase
+      .from('medication_schedules')
+      .update({ is_taken: isTaken })
+      .eq('id', medication.id);
+
+    if (mirrorError) {
+      throw new Error(`Failed to update medication: ${mirrorError.message}`);
+    }
+  }
+
+  return 'applied';
 }
 
 /**
- * Delete a medication
+ * Mark today's dose of a schedule as taken, loading the schedule by id
+ *
+ * For callers without loaded medications (the headless notifee handler).
+ * Inventory is only decremented if the dose was not already taken.
+ * Throws when offline or signed out so the caller can queue the action.
  */
-export async function deleteMedication(id: string): Promise<void> {
+export async function recordScheduleTaken(scheduleId: string, source: DoseSource): Promise<void> {
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select('id, medication_id, user_id, time, is_taken, medications(units_per_dose, inventory_count)')
+    .eq('id', scheduleId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update medication: ${error.message}`);
+  }
+
+  const schedule = data as unknown as MedicationScheduleRow & {
+    medications: Pick<MedicationRow, 'units_per_dose' | 'inventory_count'> | null;
+  };
+
+  await recordDoseStatus(
+    {
+      id: schedule.id,
+      medicationId: schedule.medication_id,
+      time: schedule.time,
+      user_id: schedule.user_id,
+    },
+    'taken',
+    source
+  );
+
+  const medication = schedule.medications;
+  if (!schedule.is_taken && medication && medication.inventory_count !== null) {
+    await adjustInventory(schedule.medication_id, -medication.units_per_dose);
+  }
+}
+
+/**
+ * Snooze today's dose of a schedule until the given time
+ * schedule-batches anchors the next call at snoozed_until
+ */
+export async function snoozeDose(scheduleId: string, snoozedUntil: Date): Promise<void> {
+  const { error } = await supabase
+    .from('medication_schedules')
+    .update({ snoozed_until: snoozedUntil.toISOString() })
+    .eq('id', scheduleId);
+
+  if (error) {
+    throw new Error(`Failed to snooze medication: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a medication and all of its schedule times
+ */
+export async function deleteMedication(medicationId: string): Promise<void> {
   const { error } = await supabase
     .from('medications')
     .delete()
-    .eq('id', id);
+    .eq('id', medicationId);
 
   if (error) {
     throw new Error(`Failed to delete medication: ${error.message}`);
   }
 }
+
+/**
+ * Atomically add delta units to a medication's inventory (negative = used)
+ * Returns the new count, or null if the medication does not track inventory
+ */
+export async function adjustInventory(medicationId: string, delta: number): Promise<number | null> {
+  const { data, error } = await supabase.rpc('adjust_medication_inventory', {
+    p_medication_id: medicationId,
+    p_delta: delta,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update inventory: ${error.message}`);
+  }
+
+  return data === null ? null : Number(data);
+}
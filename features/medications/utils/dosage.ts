@@ -0,0 +1,48 @@
+/**
+ * Dosage utilities
+ * Pure functions formatting structured dosages for display
+ *
+ * Spoken text for the IVR lives in supabase/functions/_shared/dosage.ts -
+ * keep the wording of the two in sync.
+ */
+
+import type { Dosage, DosageForm, DosageUnit, Medication } from '@/types';
+
+export const DOSAGE_UNITS: readonly DosageUnit[] = ['mg', 'ml', 'IU', 'tablet', 'puff'];
+
+export const DOSAGE_FORMS: readonly DosageForm[] = ['tablet', 'capsule', 'liquid', 'injection', 'inhaler'];
+
+/**
+ * Units counted one by one: the amount is also the number of units used per dose
+ */
+export function isCountableUnit(unit: DosageUnit): boolean {
+  return unit === 'tablet' || unit === 'puff';
+}
+
+/**
+ * Format a dosage for display
+ * Examples: "40 mg", "500 mg tablet", "5 ml liquid", "2 tablets", "1 capsule", "2 puffs"
+ */
+export function formatDosage(dosage: Dosage): string {
+  const amount = formatAmount(dosage.amount);
+
+  if (isCountableUnit(dosage.unit)) {
+    // "1 capsule" reads better than "1 tablet capsule"
+    const noun = dosage.unit === 'tablet' && dosage.form === 'capsule' ? 'capsule' : dosage.unit;
+    return `${amount} ${noun}${dosage.amount === 1 ? '' : 's'}`;
+  }
+
+  return dosage.form ? `${amount} ${dosage.unit} ${dosage.form}` : `${amount} ${dosage.unit}`;
+}
+
+/**
+ * Display text for a medication's dosage
+ * Falls back to the stored text for dosages the migration could not parse
+ */
+export function getDosageText(medication: Pick<Medication, 'dosage' | 'dosageText'>): string {
+  return medication.dosage ? formatDosage(medication.dosage) : medication.dosageText;
+}
+
+function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? amount.toString() : amount.toFixed(2).replace(/\.?0+$/, '');
+}
@@ -0,0 +1,54 @@
+/**
+ * Inventory utilities
+ * Pure functions forecasting days of supply from a medication's schedules
+ *
+ * Mirrors supabase/functions/_shared/inventory.ts (used by schedule-batches
+ * for the refill mention in calls) - keep the two in sync.
+ */
+
+import type { Medication, RecurrenceRule } from '@/types';
+
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+/**
+ * Average number of doses per day a recurrence rule produces
+ */
+export function getDosesPerDay(rule: RecurrenceRule): number {
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays.length / 7;
+    case 'interval':
+      return 1 / Math.max(1, rule.everyDays);
+    case 'cyclic':
+      return rule.daysOn / Math.max(1, rule.daysOn + rule.daysOff);
+    case 'monthly':
+      return 1 / AVERAGE_DAYS_PER_MONTH;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Whole days of supply left for a medication
+ *
+ * @param schedules - every schedule entry sharing the medicationId
+ * Returns null if inventory is not tracked (or the schedule uses nothing)
+ */
+export function getDaysOfSupply(schedules: Medication[]): number | null {
+  const first = schedules[0];
+  if (!first || first.inventoryCount === null) return null;
+
+  const dailyUnits =
+    schedules.reduce((sum, schedule) => sum + getDosesPerDay(schedule.recurrence), 0) * first.unitsPerDose;
+  if (dailyUnits <= 0) return null;
+
+  return Math.floor(first.inventoryCount / dailyUnits);
+}
+
+/**
+ * Check whether a medication is at or below its refill threshold
+ */
+export function needsRefill(schedules: Medication[]): boolean {
+  const daysLeft = getDaysOfSupply(schedules);
+  return daysLeft !== null && daysLeft <= schedules[0].refillThresholdDays;
+}
@@ -0,0 +1,161 @@
+/**
+ * Recurrence utilities for medication schedules
+ * Pure functions deciding which dose days a schedule time is due on,
+ * combining its recurrence rule with the medication's course window
+ *
+ * Mirrors supabase/functions/_shared/recurrence.ts (used by schedule-batches
+ * and daily-rollover) - keep the two in sync.
+ */
+
+import { RESET_HOUR } from '@/constants/time';
+import type { Medication, RecurrenceRule } from '@/types';
+import { getDoseDate, shiftDate } from './time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Furthest ahead getNextDoseTime looks (covers monthly and long cycles)
+ */
+const MAX_LOOKAHEAD_DAYS = 400;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+/**
+ * Rule used for schedules without an explicit recurrence
+ */
+export const DAILY_RECURRENCE: RecurrenceRule = { type: 'daily' };
+
+/**
+ * The parts of a medication that decide which dose days it is due on
+ * (dosage and taperPlan only affect the dosage shown for each day)
+ */
+export type DoseSchedule = Pick<Medication, 'recurrence'> &
+  Partial<Pick<Medication, 'startDate' | 'endDate' | 'dosage' | 'taperPlan'>>;
+
+/**
+ * Check whether a schedule is due on a dose day (YYYY-MM-DD)
+ */
+export function isDoseDay(rule: RecurrenceRule, doseDate: string): boolean {
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays.includes(toUTCDate(doseDate).getUTCDay());
+
+    case 'interval': {
+      const elapsed = daysBetween(rule.startDate, doseDate);
+      return elapsed >= 0 && elapsed % Math.max(1, rule.everyDays) === 0;
+    }
+
+    case 'cyclic': {
+      const elapsed = daysBetween(rule.startDate, doseDate);
+      const cycleLength = Math.max(1, rule.daysOn + rule.daysOff);
+      return elapsed >= 0 && elapsed % cycleLength < rule.daysOn;
+    }
+
+    case 'monthly': {
+      const date = toUTCDate(doseDate);
+      const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      // Day 31 in a 30-day month (or 29+ in February) falls on the last day
+      return date.getUTCDate() === Math.min(rule.dayOfMonth, lastDay);
+    }
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check whether a dose day falls inside a course window (inclusive)
+ * Missing bounds are open-ended
+ */
+export function isWithinCourse(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  doseDate: string
+): boolean {
+  if (startDate && doseDate < startDate) return false;
+  if (endDate && doseDate > endDate) return false;
+  return true;
+}
+
+/**
+ * Check whether a schedule is due on a dose day (course window + recurrence)
+ */
+export function isScheduledOn(schedule: DoseSchedule, doseDate: string): boolean {
+  return (
+    isWithinCourse(schedule.startDate, schedule.endDate, doseDate) &&
+    isDoseDay(schedule.recurrence, doseDate)
+  );
+}
+
+/**
+ * Check whether a schedule is due in the current dose day
+ */
+export function isDueToday(schedule: DoseSchedule): boolean {
+  return isScheduledOn(schedule, getDoseDate());
+}
+
+/**
+ * Get the next moment (after `from`) a schedule time is due
+ *
+ * Times before RESET_HOUR belong to the previous dose day, so a 01:00 dose
+ * on a Monday schedule rings at 01:00 on Tuesday.
+ * Returns null if the course has ended or the rule never fires within
+ * MAX_LOOKAHEAD_DAYS.
+ */
+export function getNextDoseTime(
+  schedule: DoseSchedule,
+  hour: number,
+  minute: number,
+  from: Date = new Date()
+): Date | null {
+  const today = getDoseDate(from);
+  const startDoseDate = schedule.startDate && schedule.startDate > today ? schedule.startDate : today;
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const doseDate = shiftDate(startDoseDate, offset);
+    if (schedule.endDate && doseDate > schedule.endDate) break;
+    if (!isDoseDay(schedule.recurrence, doseDate)) continue;
+
+    const [year, month, day] = doseDate.split('-').map((n) => parseInt(n, 10));
+    const candidate = new Date(year, month - 1, day, hour, minute, 0, 0);
+    if (hour < RESET_HOUR) {
+      candidate.setDate(candidate.getDate() + 1);
+    }
+
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short human-readable label (e.g. "Mon, Wed, Fri", "Every 3 days")
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays
+        .slice()
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join(', ');
+    case 'interval':
+      return rule.everyDays === 1 ? 'Every day' : `Every ${rule.everyDays} days`;
+    case 'cyclic':
+      return `${rule.daysOn} days on, ${rule.daysOff} off`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth}`;
+    default:
+      return 'Every day';
+  }
+}
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUTCDate(to).getTime() - toUTCDate(from).getTime()) / DAY_MS);
+}
@@ -0,0 +1,54 @@
+/**
+ * Taper plan utilities
+ * Pure functions resolving the dosage in effect on a given dose day
+ *
+ * Mirrors supabase/functions/_shared/taper.ts (used by schedule-batches for
+ * the IVR script) - keep the two in sync.
+ */
+
+import type { Dosage, Medication, TaperPlan } from '@/types';
+import { formatDosage } from './dosage';
+import { getDoseDate } from './time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the dosage in effect on a dose day (YYYY-MM-DD)
+ * Before the plan starts and after its last step, the regular dosage applies.
+ * Steps only change the amount; unit and form stay the medication's own.
+ */
+export function getDosageForDate(
+  dosage: Dosage,
+  plan: TaperPlan | null | undefined,
+  doseDate: string
+): Dosage {
+  if (!plan || plan.steps.length === 0) return dosage;
+
+  let elapsed = daysBetween(plan.startDate, doseDate);
+  if (elapsed < 0) return dosage;
+
+  for (const step of plan.steps) {
+    if (elapsed < step.days) return { ...dosage, amount: step.amount };
+    elapsed -= step.days;
+  }
+
+  return dosage;
+}
+
+/**
+ * Get display text for a medication's effective dosage
+ * (defaults to the current dose day)
+ */
+export function getEffectiveDosage(
+  medication: Pick<Medication, 'dosage' | 'dosageText' | 'taperPlan'>,
+  doseDate: string = getDoseDate()
+): string {
+  if (!medication.dosage) return medication.dosageText;
+  return formatDosage(getDosageForDate(medication.dosage, medication.taperPlan, doseDate));
+}
+
+function daysBetween(from: string, to: string): number {
+  const fromMs = new Date(`${from}T00:00:00Z`).getTime();
+  const toMs = new Date(`${to}T00:00:00Z`).getTime();
+  return Math.round((toMs - fromMs) / DAY_MS);
+}
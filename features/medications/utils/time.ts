@@ -115,6 +115,32 @@ export function isMedicationMissed(timeString: string, isTaken: boolean): boolea
   return currentTotalMinutes > medTotalMinutes;
 }
 
+/**
+ * Get the dose day (YYYY-MM-DD) that a moment belongs to
+ *
+ * A dose day runs from RESET_HOUR to RESET_HOUR the next morning, so
+ * 01:30 on the 5th still belongs to the 4th. This matches the rules in
+ * isMedicationMissed and is the key used for rows in dose_events.
+ */
+export function getDoseDate(date: Date = new Date()): string {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - RESET_HOUR);
+
+  const year = shifted.getFullYear();
+  const month = (shifted.getMonth() + 1).toString().padStart(2, '0');
+  const day = shifted.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
 /**
  * Format date for display
  */
@@ -130,6 +156,15 @@ export function formatDateLabel(date: Date): string {
   }
 }
 
+/**
+ * Validate a calendar date (YYYY-MM-DD)
+ */
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
 /**
  * Validate time format (HH:mm)
  */
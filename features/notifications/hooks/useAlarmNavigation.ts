@@ -0,0 +1,89 @@
+/**
+ * Alarm navigation hook
+ * Opens the full-screen alarm (app/alarm.tsx) for a medication notification:
+ * - cold_start: the app was launched by the notification's fullScreenAction / pressAction
+ * - background_tap: the notification was tapped while the app was in the background
+ * - foreground_auto: the alarm fired while the app was open
+ * Take / Snooze buttons pressed while the app is open are recorded like the
+ * background handler does (lib/notifeeBackgroundEvents.ts).
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState, Platform } from 'react-native';
+import notifee, { EventType, type Notification } from '@notifee/react-native';
+import { router } from 'expo-router';
+import { ROUTES } from '@/constants/config';
+import { logger } from '@/lib/logger';
+import { handleNotificationActionPress } from '@/lib/notifeeBackgroundEvents';
+import type { NotificationSource, PendingNavigation } from '@/types';
+
+function toPendingNavigation(notification: Notification | undefined, source: NotificationSource): PendingNavigation | null {
+  const data = notification?.data;
+  if (typeof data?.medicationId !== 'string') return null;
+
+  return {
+    data: {
+      medicationId: data.medicationId,
+      name: typeof data.name === 'string' ? data.name : '',
+      dosage: typeof data.dosage === 'string' ? data.dosage : '',
+    },
+    source,
+  };
+}
+
+export function useAlarmNavigation() {
+  // Notification IDs already opened, so a launch notification is not shown twice
+  const openedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+
+    const openAlarm = (notification: Notification | undefined, source: NotificationSource) => {
+      const navigation = toPendingNavigation(notification, source);
+      if (!navigation) return;
+
+      if (notification?.id) {
+        if (openedRef.current.has(notification.id)) return;
+        openedRef.current.add(notification.id);
+      }
+
+      logger.debug('Opening alarm screen', navigation);
+      router.push({ pathname: ROUTES.ALARM, params: { medicationId: navigation.data.medicationId } });
+    };
+
+    const checkInitialNotification = async (source: NotificationSource) => {
+      try {
+        const initial = await notifee.getInitialNotification();
+        // Take / Snooze buttons are handled by lib/notifeeBackgroundEvents.ts
+        if (initial && initial.pressAction.id === 'default') {
+          openAlarm(initial.notification, source);
+        }
+      } catch (error) {
+        logger.error('Failed to read initial notification', error);
+      }
+    };
+
+    void checkInitialNotification('cold_start');
+
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void checkInitialNotification('background_tap');
+      }
+    });
+
+    const unsubscribeForeground = notifee.onForegroundEvent(({ type, detail }) => {
+      if (type === EventType.DELIVERED || type === EventType.PRESS) {
+        openAlarm(detail.notification, 'foreground_auto');
+      } else if (type === EventType.ACTION_PRESS && detail.pressAction) {
+        void handleNotificationActionPress(detail.notification, detail.pressAction).catch((error) => {
+          logger.error('Failed to handle notification action', error);
+        });
+      }
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribeForeground();
+    };
+  }, []);
+}
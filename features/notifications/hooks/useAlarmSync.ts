@@ -0,0 +1,44 @@
+/**
+ * Alarm sync hook
+ * Keeps local notifee triggers in step with MedicationContext: re-runs the
+ * sync whenever medications change (load, add, edit, delete, taken, snooze)
+ * and whenever the app comes to the foreground.
+ *
+ * After a reboot notifee restores pending triggers itself (RECEIVE_BOOT_COMPLETED);
+ * the next app start or delivered alarm (lib/notifeeBackgroundEvents.ts)
+ * tops them up again.
+ *
+ * Paused while a caregiver views a linked patient's medications: the
+ * user's own alarms stay as they are until they switch back.
+ */
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useMedication } from '@/contexts/MedicationContext';
+import { syncNotifeeAlarms } from '../services/alarmSyncService';
+
+export function useAlarmSync() {
+  const { medications, loading, viewingPatient } = useMedication();
+  const medicationsRef = useRef(medications);
+  medicationsRef.current = medications;
+  const paused = loading || viewingPatient !== null;
+
+  useEffect(() => {
+    if (paused) return;
+    void syncNotifeeAlarms(medications);
+  }, [medications, paused]);
+
+  useEffect(() => {
+    if (paused) return;
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void syncNotifeeAlarms(medicationsRef.current);
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [paused]);
+}
@@ -0,0 +1,89 @@
+/**
+ * Alarm sync service
+ * Reconciles local notifee triggers (Android) with the user's medications:
+ * missing triggers are created and orphaned ones cancelled, using the
+ * deterministic `${medicationId}_${timestamp}` IDs (see utils/alarmSync.ts).
+ *
+ * Runs are serialized - a sync requested while one is running re-runs once
+ * it finishes, with the latest medications.
+ */
+
+import { logger } from '@/lib/logger';
+import type { Medication } from '@/types';
+import notifee from '@notifee/react-native';
+import { Platform } from 'react-native';
+import { diffAlarms, getExpectedAlarms } from '../utils/alarmSync';
+import { scheduleNotifeeAlarm } from './notificationsService';
+
+export interface AlarmSyncResult {
+  created: number;
+  cancelled: number;
+}
+
+let running: Promise<AlarmSyncResult> | null = null;
+let queued: Medication[] | null = null;
+
+/**
+ * Bring local triggers in line with the given medications
+ * Pass every (non-archived) schedule of the signed-in user; an empty list
+ * cancels all alarms (e.g. after sign-out).
+ */
+export async function syncNotifeeAlarms(medications: Medication[]): Promise<AlarmSyncResult> {
+  if (Platform.OS !== 'android') return { created: 0, cancelled: 0 };
+
+  if (running) {
+    queued = medications;
+    return running;
+  }
+
+  running = (async () => {
+    let result: AlarmSyncResult = { created: 0, cancelled: 0 };
+    let next: Medication[] | null = medications;
+
+    while (next) {
+      queued = null;
+      result = await reconcile(next);
+      next = queued;
+    }
+
+    return result;
+  })();
+
+  try {
+    return await running;
+  } finally {
+    running = null;
+  }
+}
+
+async function reconcile(medications: Medication[]): Promise<AlarmSyncResult> {
+  try {
+    const scheduledIds = await notifee.getTriggerNotificationIds();
+    const { toCreate, toCancel } = diffAlarms(getExpectedAlarms(medications), scheduledIds);
+
+    for (const id of toCancel) {
+      await notifee.cancelTriggerNotification(id);
+    }
+
+    let created = 0;
+    for (const alarm of toCreate) {
+      try {
+        const { medication } = alarm;
+        await scheduleNotifeeAlarm(
+          { medicationId: medication.id, name: medication.name, dosage: medication.dosageText },
+          alarm.timestamp,
+          medication
+        );
+        created++;
+      } catch (error) {
+        logger.error('Failed to schedule alarm during sync', { id: alarm.id, error });
+      }
+    }
+
+    logger.debug('Alarm sync complete', { created, cancelled: toCancel.length, scheduled: scheduledIds.length });
+    return { created, cancelled: toCancel.length };
+  } catch (error) {
+    logger.error('Alarm sync failed', error);
+    return { created: 0, cancelled: 0 };
+  }
+}
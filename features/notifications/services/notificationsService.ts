@@ -11,8 +11,11 @@ import {
   NOTIFICATION_SOUND_NAME,
   VIBRATION_PATTERN,
 } from '@/constants/notifications';
+import { formatDosage } from '@/features/medications/utils/dosage';
+import { getDosageForDate } from '@/features/medications/utils/taper';
+import { getDoseDate } from '@/features/medications/utils/time';
 import { logger } from '@/lib/logger';
-import type { MedicationNotificationData } from '@/types';
+import type { Medication, MedicationNotificationData } from '@/types';
 import notifee, {
   AndroidCategory,
   AndroidImportance,
@@ -20,6 +23,7 @@ import notifee, {
   TimestampTrigger,
   TriggerType,
 } from '@notifee/react-native';
+import Constants from 'expo-constants';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 
@@ -208,6 +212,38 @@ export async function scheduleMedicationReminder(
   return identifier;
 }
 
+/**
+ * Show a refill reminder right away (medication running low)
+ * Returns null if notification permissions are not granted
+ */
+export async function showRefillReminder(
+  name: string,
+  daysLeft: number,
+  unitsLeft: number
+): Promise<string | null> {
+  const hasPermission = await checkNotificationPermissions();
+  if (!hasPermission) {
+    logger.warn('Notification permissions not granted, refill reminder not shown', { name });
+    return null;
+  }
+
+  await initAndroidAlarmChannel();
+
+  const when = daysLeft <= 0 ? 'today' : daysLeft === 1 ? 'in about 1 day' : `in about ${daysLeft} days`;
+
+  return Notifications.scheduleNotificationAsync({
+    content: {
+      title: `💊 Time to refill ${name}`,
+      body: `${unitsLeft} left - you will run out ${when}.`,
+      sound: NOTIFICATION_SOUND_NAME,
+      ...(Platform.OS === 'android' && {
+        channelId: NOTIFICATION_CHANNEL_ID,
+      }),
+    },
+    trigger: null,
+  });
+}
+
 /**
  * Cancel a scheduled notification
  */
@@ -237,6 +273,25 @@ export async function checkNotificationPermissions(): Promise<boolean> {
   return status === 'granted';
 }
 
+/**
+ * Get this device's Expo push token (used for caregiver alerts)
+ * Returns null without notification permission, or if Expo can't issue one
+ * (e.g. simulators, missing EAS project id)
+ */
+export async function getExpoPushToken(): Promise<string | null> {
+  if (!(await checkNotificationPermissions())) return null;
+
+  try {
+    const { data } = await Notifications.getExpoPushTokenAsync({
+      projectId: Constants.expoConfig?.extra?.eas?.projectId,
+    });
+    return data;
+  } catch (error) {
+    logger.warn('Expo push token unavailable', { error: (error as Error).message });
+    return null;
+  }
+}
+
 // ============================================================================
 // NOTIFEE FUNCTIONS - Full Screen Intent Alarm Support (Android)
 // ============================================================================
@@ -378,11 +433,22 @@ export async function displayAlarmNotification(
  * notification being rescheduled to avoid wiping other medications.
  * 
  * Uses deterministic ID: medicationId_timestamp for collision handling.
+ * 
+ * With a structured dosage, the body shows the dosage in effect on the alarm's
+ * dose day (taper plans resolved); otherwise medicationData.dosage is used as-is.
  */
 export async function scheduleNotifeeAlarm(
-  data: MedicationNotificationData,
-  timestamp: number
+  medicationData: MedicationNotificationData,
+  timestamp: number,
+  medication?: Partial<Pick<Medication, 'dosage' | 'taperPlan'>>
 ): Promise<string> {
+  const data: MedicationNotificationData = {
+    ...medicationData,
+    dosage: medication?.dosage
+      ? formatDosage(getDosageForDate(medication.dosage, medication.taperPlan, getDoseDate(new Date(timestamp))))
+      : medicationData.dosage,
+  };
+
   if (Platform.OS !== 'android') {
     // Calculate delay for iOS fallback
     const delayMs = timestamp - Date.now();
@@ -461,23 +527,54 @@ export async function scheduleNotifeeAlarm(
 }
 
 /**
- * Schedule a daily Notifee alarm (Android)
+ * Schedule a one-off follow-up alarm for a snoozed dose
+ * Uses the same `${medicationId}_${timestamp}` ID scheme as regular alarms.
+ * Pending alarms of the schedule that would ring before the new time (an
+ * earlier snooze) are cancelled so a re-snooze replaces the previous one.
  */
-export async function scheduleDailyNotifeeAlarm(
-  data: MedicationNotificationData,
-  hour: number,
-  minute: number
-): Promise<string> {
-  const now = new Date();
-  const scheduledTime = new Date();
-  scheduledTime.setHours(hour, minute, 0, 0);
-
-  // If time has passed today, schedule for tomorrow
-  if (scheduledTime.getTime() <= now.getTime()) {
-    scheduledTime.setDate(scheduledTime.getDate() + 1);
+export async function scheduleSnoozeAlarm(medication: Medication, timestamp: number): Promise<string> {
+  if (Platform.OS === 'android') {
+    try {
+      const triggerIds = await notifee.getTriggerNotificationIds();
+      const earlierIds = triggerIds.filter((id) => {
+        if (!id.startsWith(`${medication.id}_`)) return false;
+        const triggerTime = Number(id.slice(medication.id.length + 1));
+        return Number.isFinite(triggerTime) && triggerTime < timestamp;
+      });
+
+      for (const id of earlierIds) {
+        await notifee.cancelTriggerNotification(id);
+      }
+    } catch (error) {
+      logger.error('Failed to cancel earlier snooze alarms', error);
+    }
   }
 
-  return scheduleNotifeeAlarm(data, scheduledTime.getTime());
+  return scheduleNotifeeAlarm(
+    { medicationId: medication.id, name: medication.name, dosage: medication.dosageText },
+    timestamp,
+    medication
+  );
+}
+
+/**
+ * Dismiss the displayed (ringing) Notifee alarms of the given schedules (Android)
+ * Used by the alarm screen, which takes over the sound while it is open.
+ */
+export async function cancelDisplayedAlarms(scheduleIds: string[]): Promise<void> {
+  if (Platform.OS !== 'android') return;
+
+  try {
+    const displayed = await notifee.getDisplayedNotifications();
+    for (const { id, notification } of displayed) {
+      const medicationId = notification.data?.medicationId;
+      if (id && typeof medicationId === 'string' && scheduleIds.includes(medicationId)) {
+        await notifee.cancelNotification(id);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to dismiss displayed alarms', error);
+  }
 }
 
 /**
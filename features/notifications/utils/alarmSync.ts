@@ -0,0 +1,81 @@
+/**
+ * Alarm sync utilities
+ * Pure functions working out which local notifee triggers a user's
+ * medications need, and how that differs from what is scheduled.
+ *
+ * Trigger IDs are `${medicationId}_${timestamp}` (medication_schedules id and
+ * ring time in ms), the scheme used by scheduleNotifeeAlarm().
+ */
+
+import { ALARM_SYNC_LOOKAHEAD_DAYS } from '@/constants/notifications';
+import { getNextDoseTime } from '@/features/medications/utils/recurrence';
+import { getDoseDate } from '@/features/medications/utils/time';
+import type { Medication } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpectedAlarm {
+  id: string;
+  medication: Medication;
+  timestamp: number;
+}
+
+export interface AlarmDiff {
+  toCreate: ExpectedAlarm[];
+  toCancel: string[];
+}
+
+/**
+ * Build the trigger ID for a schedule ringing at a given time
+ */
+export function getAlarmId(scheduleId: string, timestamp: number): string {
+  return `${scheduleId}_${timestamp}`;
+}
+
+/**
+ * Every trigger the medications should have within the lookahead window:
+ * each upcoming dose time (today's is left out once taken) plus the
+ * follow-up alarm of a snoozed, untaken dose.
+ */
+export function getExpectedAlarms(medications: Medication[], now: Date = new Date()): ExpectedAlarm[] {
+  const horizon = now.getTime() + ALARM_SYNC_LOOKAHEAD_DAYS * DAY_MS;
+  const today = getDoseDate(now);
+  const expected: ExpectedAlarm[] = [];
+
+  for (const medication of medications) {
+    const [hour, minute] = medication.time.split(':').map((part) => parseInt(part, 10));
+
+    let next = getNextDoseTime(medication, hour, minute, now);
+    while (next && next.getTime() <= horizon) {
+      const timestamp = next.getTime();
+      if (!(medication.isTaken && getDoseDate(next) === today)) {
+        expected.push({ id: getAlarmId(medication.id, timestamp), medication, timestamp });
+      }
+      next = getNextDoseTime(medication, hour, minute, next);
+    }
+
+    if (medication.snoozedUntil && !medication.isTaken) {
+      const timestamp = new Date(medication.snoozedUntil).getTime();
+      if (timestamp > now.getTime()) {
+        expected.push({ id: getAlarmId(medication.id, timestamp), medication, timestamp });
+      }
+    }
+  }
+
+  return expected;
+}
+
+/**
+ * Compare expected alarms with the scheduled trigger IDs
+ * Triggers that no medication expects (deleted or edited schedules, taken
+ * doses, old snoozes) are cancelled.
+ */
+export function diffAlarms(expected: ExpectedAlarm[], scheduledIds: string[]): AlarmDiff {
+  const scheduled = new Set(scheduledIds);
+  const byId = new Map(expected.map((alarm) => [alarm.id, alarm]));
+
+  return {
+    toCreate: [...byId.values()].filter((alarm) => !scheduled.has(alarm.id)),
+    toCancel: scheduledIds.filter((id) => !byId.has(id)),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Profile repository
+ * Handles database operations for the profiles table
+ */
+
+import { DEFAULT_SNOOZE_MINUTES, SNOOZE_OPTIONS_MINUTES } from '@/constants/notifications';
+import { supabase } from '@/lib/supabase';
+import type { CaregiverAlertChannel, ReminderChannel } from '@/types';
+
+const ALERT_CHANNELS: CaregiverAlertChannel[] = ['push', 'sms', 'call'];
+
+/**
+ * Get the device's IANA timezone (e.g. "Asia/Karachi")
+ * Returns null if the runtime can't resolve one
+ */
+export function getDeviceTimezone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the user's timezone on their profile
+ * Upsert only touches id/timezone, so an existing full_name is preserved
+ */
+export async function updateProfileTimezone(userId: string, timezone: string): Promise<void> {
+  const { error } = await supabase.from('profiles').upsert({
+    id: userId,
+    timezone,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to update timezone: ${error.message}`);
+  }
+}
+
+/**
+ * Get the user's snooze length in minutes (DEFAULT_SNOOZE_MINUTES if unset)
+ */
+export async function fetchSnoozeMinutes(userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('snooze_minutes')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch snooze setting: ${error.message}`);
+  }
+
+  const minutes = data?.snooze_minutes;
+  return (SNOOZE_OPTIONS_MINUTES as readonly number[]).includes(minutes) ? minutes : DEFAULT_SNOOZE_MINUTES;
+}
+
+/**
+ * Store the user's snooze length (one of SNOOZE_OPTIONS_MINUTES)
+ */
+export async function updateSnoozeMinutes(userId: string, minutes: number): Promise<void> {
+  const { error } = await supabase.from('profiles').upsert({
+    id: userId,
+    snooze_minutes: minutes,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to update snooze setting: ${error.message}`);
+  }
+}
+
+/**
+ * Store how the user gets server reminders: calls, or texts for users who
+ * can't take calls
+ */
+export async function updateReminderChannel(userId: string, channel: ReminderChannel): Promise<void> {
+  const { error } = await supabase.from('profiles').upsert({
+    id: userId,
+    reminder_channel: channel,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to update reminder channel: ${error.message}`);
+  }
+}
+
+/**
+ * Get how the user wants missed-dose alerts as a caregiver ('push' if unset)
+ */
+export async function fetchAlertChannel(userId: string): Promise<CaregiverAlertChannel> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('caregiver_alert_channel')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch alert channel: ${error.message}`);
+  }
+
+  const channel = data?.caregiver_alert_channel;
+  return ALERT_CHANNELS.includes(channel) ? channel : 'push';
+}
+
+/**
+ * Store how the user wants missed-dose alerts as a caregiver
+ */
+export async function updateAlertChannel(userId: string, channel: CaregiverAlertChannel): Promise<void> {
+  const { error } = await supabase.from('profiles').upsert({
+    id: userId,
+    caregiver_alert_channel: channel,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to update alert channel: ${error.message}`);
+  }
+}
+
+/**
+ * Store this device's Expo push token so caregiver alerts reach it
+ */
+export async function updatePushToken(userId: string, token: string): Promise<void> {
+  const { error } = await supabase.from('profiles').upsert({
+    id: userId,
+    expo_push_token: token,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to update push token: ${error.message}`);
+  }
+}
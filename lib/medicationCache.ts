@@ -0,0 +1,50 @@
+/**
+ * Medication cache
+ *
+ * Last known medications of a user, kept in AsyncStorage so the schedule
+ * still shows without connectivity. Written by MedicationContext whenever its
+ * state changes, including optimistic changes still waiting in the outbox.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDoseDate } from '@/features/medications/utils/time';
+import type { Medication } from '@/types';
+
+const MEDICATION_CACHE_KEY_PREFIX = 'medication_cache:';
+
+interface MedicationCache {
+  doseDate: string; // Dose day the taken / snoozed state belongs to
+  medications: Medication[];
+}
+
+/**
+ * Read a user's cached medications, or null if nothing is cached
+ * A cache from an earlier dose day is returned with every dose pending again.
+ */
+export async function readMedicationCache(userId: string): Promise<Medication[] | null> {
+  try {
+    const raw = await AsyncStorage.getItem(MEDICATION_CACHE_KEY_PREFIX + userId);
+    if (!raw) return null;
+
+    const cache = JSON.parse(raw) as MedicationCache;
+    if (cache.doseDate === getDoseDate()) return cache.medications;
+
+    return cache.medications.map((m) => ({ ...m, isTaken: false, snoozedUntil: null }));
+  } catch (error) {
+    console.error('Failed to read medication cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Replace a user's cached medications
+ */
+export async function writeMedicationCache(userId: string, medications: Medication[]): Promise<void> {
+  const cache: MedicationCache = { doseDate: getDoseDate(), medications };
+
+  try {
+    await AsyncStorage.setItem(MEDICATION_CACHE_KEY_PREFIX + userId, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Failed to write medication cache:', error);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Medication outbox
+ *
+ * Durable queue of add / toggle / delete changes made while the server could
+ * not be reached. Kept in AsyncStorage and replayed in order by
+ * features/medications/services/medicationSync.ts once connectivity returns.
+ *
+ * Queued changes are coalesced: a newer toggle of the same dose replaces the
+ * older one, and deleting a medication that was added offline just drops the
+ * queued add. A medication added offline gets its final ids (UUIDs) when it
+ * is queued, so later changes to it need no rewriting once it is sent.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { randomUUID } from 'expo-crypto';
+import type { MedicationMutation } from '@/types';
+
+const MEDICATION_OUTBOX_KEY = 'medication_outbox';
+
+// Serializes read-modify-write of the stored queue
+let outboxLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Create an id for an outbox entry, or for a medication (and its schedules)
+ * added offline: the same id is used when the add reaches the server
+ */
+export function createLocalId(): string {
+  return randomUUID();
+}
+
+/**
+ * Whether an error means the server could not be reached (as opposed to
+ * the server rejecting the change)
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /network request failed|failed to fetch|network ?error|timed? ?out|offline/i.test(message);
+}
+
+async function readQueue(): Promise<MedicationMutation[]> {
+  try {
+    const raw = await AsyncStorage.getItem(MEDICATION_OUTBOX_KEY);
+    return raw ? (JSON.parse(raw) as MedicationMutation[]) : [];
+  } catch (error) {
+    console.error('Failed to read medication outbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Read-modify-write the queue; returns the new queue
+ */
+export function updateOutbox(
+  update: (queue: MedicationMutation[]) => MedicationMutation[]
+): Promise<MedicationMutation[]> {
+  const next = outboxLock.then(async () => {
+    const queue = update(await readQueue());
+    await AsyncStorage.setItem(MEDICATION_OUTBOX_KEY, JSON.stringify(queue));
+    return queue;
+  });
+  outboxLock = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Current queue, oldest first
+ */
+export async function readOutbox(): Promise<MedicationMutation[]> {
+  await outboxLock;
+  return readQueue();
+}
+
+/**
+ * Whether a medication was added offline and is still waiting to be sent
+ */
+export async function hasQueuedAdd(medicationId: string): Promise<boolean> {
+  const queue = await readOutbox();
+  return queue.some((m) => m.type === 'add' && m.medicationId === medicationId);
+}
+
+/**
+ * Queue a change; returns the number of queued changes
+ */
+export async function enqueueMutation(mutation: MedicationMutation): Promise<number> {
+  const queue = await updateOutbox((queue) => {
+    switch (mutation.type) {
+      case 'toggle':
+        return [
+          ...queue.filter(
+            (m) =>
+              !(m.type === 'toggle' && m.schedule.id === mutation.schedule.id && m.doseDate === mutation.doseDate)
+          ),
+          mutation,
+        ];
+
+      case 'delete': {
+        const remaining = queue.filter(
+          (m) => !(m.type === 'toggle' && m.schedule.medicationId === mutation.medicationId)
+        );
+        const addedOffline = remaining.some(
+          (m) => m.type === 'add' && m.medicationId === mutation.medicationId
+        );
+        return addedOffline
+          ? remaining.filter((m) => !(m.type === 'add' && m.medicationId === mutation.medicationId))
+          : [...remaining, mutation];
+      }
+
+      default:
+        return [...queue, mutation];
+    }
+  });
+
+  return queue.length;
+}
@@ -1,48 +1,146 @@
-import notifee, { EventType } from '@notifee/react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import notifee, { EventType, type Notification, type NotificationPressAction } from '@notifee/react-native';
+import { fetchMedications, recordScheduleTaken, snoozeDose } from '@/features/medications/services/medicationsRepository';
+import { syncNotifeeAlarms } from '@/features/notifications/services/alarmSyncService';
+import { scheduleSnoozeAlarm } from '@/features/notifications/services/notificationsService';
+import { fetchSnoozeMinutes } from '@/features/profile/services/profileRepository';
+import { enqueuePendingActions } from './pendingMedicationActions';
+import { supabase } from './supabase';
 
-const PENDING_MEDICATION_ACTION_KEY = 'pending_medication_action';
+const MINUTE_MS = 60 * 1000;
 
 const globalFlags = globalThis as unknown as {
   __notifeeBackgroundHandlerRegistered?: boolean;
 };
 
+/**
+ * Record a "Take" press straight to Supabase, using the session persisted by
+ * lib/supabase.ts (SecureStorageAdapter), so the server cron stops calling
+ * without the app being opened.
+ * Returns false if there is no session or the update failed (e.g. offline).
+ */
+async function recordTakenHeadless(medicationId: string): Promise<boolean> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return false;
+
+    await recordScheduleTaken(medicationId, 'notification');
+    return true;
+  } catch (error) {
+    console.error('Headless take failed, queueing for later:', error);
+    return false;
+  }
+}
+
+/**
+ * Record a "Snooze" press straight away: snoozed_until moves the server call
+ * and a follow-up alarm moves the device alarm, without opening the app.
+ * Returns false if there is no session or the update failed (e.g. offline).
+ */
+async function snoozeHeadless(medicationId: string, pressedAt: number): Promise<boolean> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return false;
+
+    const [medications, snoozeMinutes] = await Promise.all([
+      fetchMedications(session.user.id),
+      fetchSnoozeMinutes(session.user.id),
+    ]);
+    const medication = medications.find((m) => m.id === medicationId);
+
+    // Deleted, or taken in the meantime: nothing left to snooze
+    if (!medication || medication.isTaken) return true;
+
+    const snoozeUntil = pressedAt + snoozeMinutes * MINUTE_MS;
+    await snoozeDose(medication.id, new Date(snoozeUntil));
+    await scheduleSnoozeAlarm(medication, snoozeUntil);
+    return true;
+  } catch (error) {
+    console.error('Headless snooze failed, queueing for later:', error);
+    return false;
+  }
+}
+
+/**
+ * Top up local alarms after one rings, so they keep going on days the app
+ * is not opened (including the first alarm notifee restores after a reboot).
+ */
+async function syncAlarmsHeadless(): Promise<void> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const medications = await fetchMedications(session.user.id);
+    await syncNotifeeAlarms(medications);
+  } catch (error) {
+    console.error('Headless alarm sync failed:', error);
+  }
+}
+
+/**
+ * Handle a Take / Snooze button press (background or foreground)
+ * The press is recorded immediately when possible, otherwise queued for
+ * usePendingMedicationActions(); the notification is dismissed either way.
+ */
+export async function handleNotificationActionPress(
+  notification: Notification | undefined,
+  pressAction: NotificationPressAction
+): Promise<void> {
+  const data = notification?.data as
+    | { medicationId?: string; name?: string; dosage?: string }
+    | undefined;
+
+  const pressedAt = Date.now();
+  let recorded = false;
+  if (pressAction.id === 'take' && data?.medicationId) {
+    recorded = await recordTakenHeadless(data.medicationId);
+  } else if (pressAction.id === 'snooze' && data?.medicationId) {
+    recorded = await snoozeHeadless(data.medicationId, pressedAt);
+  }
+
+  if ((pressAction.id === 'take' || pressAction.id === 'snooze') && data?.medicationId && !recorded) {
+    await enqueuePendingActions([
+      {
+        action: pressAction.id,
+        medicationId: data.medicationId,
+        timestamp: pressedAt,
+      },
+    ]);
+  }
+
+  if (notification?.id) {
+    await notifee.cancelNotification(notification.id);
+  }
+}
+
 /**
  * Notifee background event handler.
  * 
  * NOTE: All alarm/call logic has been moved to the server-side (schedule-batches cron job).
- * This handler now only processes button presses (take/snooze) from notifications.
+ * This handler processes button presses (take/snooze) from notifications and
+ * re-syncs local alarms when one is delivered.
+ * "Take" and "Snooze" are recorded immediately when possible; a press that
+ * could not be recorded (offline, signed out) is queued for
+ * usePendingMedicationActions().
  */
 if (!globalFlags.__notifeeBackgroundHandlerRegistered) {
   globalFlags.__notifeeBackgroundHandlerRegistered = true;
 
   notifee.onBackgroundEvent(async ({ type, detail }) => {
     const { notification, pressAction } = detail;
-    const data = notification?.data as
-      | { medicationId?: string; name?: string; dosage?: string }
-      | undefined;
 
-    // Button presses (take/snooze) - store for processing when app becomes active
+    // Button presses (take/snooze)
     if (type === EventType.ACTION_PRESS && pressAction) {
-      if ((pressAction.id === 'take' || pressAction.id === 'snooze') && data?.medicationId) {
-        await AsyncStorage.setItem(
-          PENDING_MEDICATION_ACTION_KEY,
-          JSON.stringify({
-            action: pressAction.id,
-            medicationId: data.medicationId,
-            timestamp: Date.now(),
-          })
-        );
-      }
-
-      if (notification?.id) {
-        await notifee.cancelNotification(notification.id);
-      }
+      await handleNotificationActionPress(notification, pressAction);
+      return;
+    }
 
+    if (type === EventType.DELIVERED) {
+      await syncAlarmsHeadless();
       return;
     }
 
-    // Notification tap - just dismiss the notification (no alarm screen navigation)
+    // Notification tap - dismiss it; the app opens and useAlarmNavigation()
+    // shows the alarm screen from notifee.getInitialNotification()
     if (type === EventType.PRESS && notification?.id) {
       await notifee.cancelNotification(notification.id);
     }
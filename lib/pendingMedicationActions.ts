@@ -0,0 +1,93 @@
+/**
+ * Pending medication actions queue
+ *
+ * Take and Snooze presses the notifee background handler could not record
+ * directly (offline, signed out) are appended here and
+ * processed by usePendingMedicationActions() when the app starts or comes
+ * back to the foreground. Kept in AsyncStorage so it works without a session.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { PendingMedicationAction } from '@/types';
+
+const PENDING_MEDICATION_ACTIONS_KEY = 'pending_medication_actions';
+
+// Single-action key written by older versions of the background handler
+const LEGACY_PENDING_MEDICATION_ACTION_KEY = 'pending_medication_action';
+
+// Serializes read-modify-write of the stored queue
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function actionKey(action: PendingMedicationAction): string {
+  return `${action.medicationId}:${action.action}:${action.timestamp}`;
+}
+
+/**
+ * Drop repeated presses (same medication, action and timestamp)
+ */
+function dedupe(actions: PendingMedicationAction[]): PendingMedicationAction[] {
+  const seen = new Set<string>();
+  return actions.filter((action) => {
+    const key = actionKey(action);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function readQueue(): Promise<PendingMedicationAction[]> {
+  const [queued, legacy] = await Promise.all([
+    AsyncStorage.getItem(PENDING_MEDICATION_ACTIONS_KEY),
+    AsyncStorage.getItem(LEGACY_PENDING_MEDICATION_ACTION_KEY),
+  ]);
+
+  const actions: PendingMedicationAction[] = [];
+  try {
+    if (queued) actions.push(...(JSON.parse(queued) as PendingMedicationAction[]));
+    if (legacy) actions.push(JSON.parse(legacy) as PendingMedicationAction);
+  } catch (error) {
+    console.error('Failed to parse pending medication actions:', error);
+  }
+
+  return actions.filter((action) => action && action.medicationId && typeof action.timestamp === 'number');
+}
+
+/**
+ * Read-modify-write the queue under the lock (also folds in the legacy key)
+ */
+function updateQueue(update: (queue: PendingMedicationAction[]) => PendingMedicationAction[]): Promise<void> {
+  const next = queueLock.then(async () => {
+    const queue = dedupe(update(await readQueue()));
+    await AsyncStorage.setItem(PENDING_MEDICATION_ACTIONS_KEY, JSON.stringify(queue));
+    await AsyncStorage.removeItem(LEGACY_PENDING_MEDICATION_ACTION_KEY);
+  });
+  queueLock = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Append actions to the queue
+ */
+export async function enqueuePendingActions(actions: PendingMedicationAction[]): Promise<void> {
+  if (actions.length === 0) return;
+  await updateQueue((queue) => [...queue, ...actions]);
+}
+
+/**
+ * Every queued action, oldest first
+ * Actions stay queued until removePendingActions() is called for them, so a
+ * crash while they are being applied does not lose them.
+ */
+export async function readPendingActions(): Promise<PendingMedicationAction[]> {
+  await queueLock;
+  return dedupe(await readQueue()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Remove actions that have been applied (or dropped as stale)
+ */
+export async function removePendingActions(actions: PendingMedicationAction[]): Promise<void> {
+  if (actions.length === 0) return;
+  const done = new Set(actions.map(actionKey));
+  await updateQueue((queue) => queue.filter((action) => !done.has(actionKey(action))));
+}
@@ -30,6 +30,9 @@ interface TriggerCallResult {
 /**
  * Trigger a Twilio voice call via Supabase Edge Function
  * Supports batched medications (multiple meds in one call)
+ *
+ * make-call only accepts the service role key (schedule-batches), so calls
+ * made with a user session are rejected as Unauthorized.
  */
 export async function triggerMedicationCall(params: TriggerCallParams): Promise<TriggerCallResult> {
   // Determine if batched or legacy format
@@ -0,0 +1,155 @@
+/**
+ * Shared caregiver alert helpers for edge functions
+ *
+ * Tells a patient's linked caregivers (caregiver_links with receive_alerts)
+ * about a missed dose, on the channel each caregiver picked in the app
+ * (profiles.caregiver_alert_channel): push, SMS or a voice call.
+ * Every alert is stored in caregiver_alerts; the caregiver acknowledges it
+ * from the app once they have followed up.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendPush, type PushResult } from "./push.ts";
+import { sendSms } from "./sms.ts";
+import { placeAnnouncementCall } from "./voice.ts";
+
+export type CaregiverAlertChannel = 'push' | 'sms' | 'call';
+
+export const CAREGIVER_ALERT_CHANNELS: CaregiverAlertChannel[] = ['push', 'sms', 'call'];
+
+export interface MissedDose {
+  scheduleId: string;
+  name: string;
+  time: string; // "HH:MM" local to the patient
+}
+
+export interface CaregiverAlertOutcome {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Alert every caregiver of a patient about missed doses
+ * lookupPhone resolves a caregiver's E.164 number (auth.users, service role).
+ */
+export async function alertCaregivers(
+  supabase: ReturnType<typeof createClient>,
+  patient: { id: string; name: string },
+  doseDate: string,
+  doses: MissedDose[],
+  lookupPhone: (userId: string) => Promise<string | null>
+): Promise<CaregiverAlertOutcome> {
+  const outcome: CaregiverAlertOutcome = { sent: 0, failed: 0 };
+  if (doses.length === 0) return outcome;
+
+  const { data: links, error: linksError } = await supabase
+    .from('caregiver_links')
+    .select('caregiver_id')
+    .eq('patient_id', patient.id)
+    .eq('status', 'accepted')
+    .eq('receive_alerts', true);
+
+  if (linksError) {
+    console.error('❌ Failed to load caregivers:', linksError.message);
+    outcome.failed++;
+    return outcome;
+  }
+
+  const caregiverIds = (links || []).map(link => link.caregiver_id as string);
+  if (caregiverIds.length === 0) {
+    console.log(`👪 No caregivers to alert for user ${patient.id}`);
+    return outcome;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, caregiver_alert_channel, expo_push_token')
+    .in('id', caregiverIds);
+
+  if (profilesError) {
+    console.error('❌ Failed to load caregiver alert settings:', profilesError.message);
+  }
+
+  const settings = new Map<string, { channel: CaregiverAlertChannel; pushToken: string | null }>();
+  for (const profile of profiles || []) {
+    settings.set(profile.id, {
+      channel: CAREGIVER_ALERT_CHANNELS.includes(profile.caregiver_alert_channel)
+        ? profile.caregiver_alert_channel
+        : 'push',
+      pushToken: profile.expo_push_token || null,
+    });
+  }
+
+  const medicationList = doses.map(d => `${d.name} (${d.time})`).join(', ');
+  const message = `${patient.name} has not taken ${medicationList} after two reminder calls. ` +
+    'Please check in with them, then mark this alert as followed up in the app.';
+
+  for (const caregiverId of caregiverIds) {
+    const { channel, pushToken } = settings.get(caregiverId) ?? { channel: 'push' as const, pushToken: null };
+
+    const { data: alert, error: insertError } = await supabase
+      .from('caregiver_alerts')
+      .insert({
+        patient_id: patient.id,
+        caregiver_id: caregiverId,
+        patient_name: patient.name,
+        dose_date: doseDate,
+        schedule_ids: doses.map(d => d.scheduleId),
+        medication_names: doses.map(d => d.name),
+        channel,
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !alert) {
+      console.error(`❌ Failed to record alert for caregiver ${caregiverId}:`, insertError?.message);
+      outcome.failed++;
+      continue;
+    }
+
+    let result: { success: boolean; externalId?: string; error?: string };
+
+    if (channel === 'push') {
+      const push: PushResult = pushToken
+        ? await sendPush(pushToken, 'Missed medication', message, { type: 'caregiver_alert', alertId: alert.id })
+        : { success: false, error: 'No push token (caregiver has not opened the app)' };
+      result = { success: push.success, externalId: push.ticketId, error: push.error };
+    } else {
+      const phone = await lookupPhone(caregiverId);
+      if (!phone) {
+        result = { success: false, error: 'No phone number available' };
+      } else if (channel === 'sms') {
+        const sms = await sendSms(phone, message);
+        result = { success: sms.success, externalId: sms.messageSid, error: sms.error };
+      } else {
+        const call = await placeAnnouncementCall(phone, message);
+        result = { success: call.success, externalId: call.callSid, error: call.error };
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('caregiver_alerts')
+      .update({
+        status: result.success ? 'sent' : 'failed',
+        detail: result.error || null,
+        external_id: result.externalId || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', alert.id);
+
+    if (updateError) {
+      console.error(`❌ Failed to record alert outcome ${alert.id}:`, updateError.message);
+    }
+
+    if (result.success) {
+      console.log(`👪 Alerted caregiver ${caregiverId} by ${channel}`);
+      outcome.sent++;
+    } else {
+      console.error(`❌ Caregiver ${caregiverId} alert by ${channel} failed:`, result.error);
+      outcome.failed++;
+    }
+  }
+
+  return outcome;
+}
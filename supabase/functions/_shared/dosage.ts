@@ -0,0 +1,57 @@
+/**
+ * Shared dosage helpers for edge functions
+ *
+ * Medications store a structured dosage (medications.dosage_amount,
+ * dosage_unit, dosage_form). medications.dosage keeps the display text,
+ * which for rows the migration could not parse is the original free text.
+ * Display wording lives in features/medications/utils/dosage.ts in the app -
+ * keep the two in sync.
+ */
+
+export type DosageUnit = 'mg' | 'ml' | 'IU' | 'tablet' | 'puff';
+
+export type DosageForm = 'tablet' | 'capsule' | 'liquid' | 'injection' | 'inhaler';
+
+export interface Dosage {
+  amount: number;
+  unit: DosageUnit;
+  form: DosageForm | null;
+}
+
+// Unit names as read out by the IVR voice: [singular, plural]
+const SPOKEN_UNITS: Record<DosageUnit, [string, string]> = {
+  mg: ['milligram', 'milligrams'],
+  ml: ['millilitre', 'millilitres'],
+  IU: ['unit', 'units'],
+  tablet: ['tablet', 'tablets'],
+  puff: ['puff', 'puffs'],
+};
+
+/**
+ * Build a Dosage from the medications columns, or null if not structured
+ */
+export function toDosage(
+  amount: number | string | null | undefined,
+  unit: DosageUnit | null | undefined,
+  form: DosageForm | null | undefined
+): Dosage | null {
+  if (amount === null || amount === undefined || !unit) return null;
+  return { amount: Number(amount), unit, form: form || null };
+}
+
+/**
+ * Dosage as spoken in the IVR call
+ * Examples: "40 milligrams", "2 tablets", "1 capsule", "5 millilitres", "2 puffs"
+ */
+export function formatDosageForSpeech(dosage: Dosage): string {
+  const amount = Number.isInteger(dosage.amount)
+    ? dosage.amount.toString()
+    : dosage.amount.toFixed(2).replace(/\.?0+$/, '');
+
+  if (dosage.unit === 'tablet' && dosage.form === 'capsule') {
+    return `${amount} ${dosage.amount === 1 ? 'capsule' : 'capsules'}`;
+  }
+
+  const [singular, plural] = SPOKEN_UNITS[dosage.unit];
+  return `${amount} ${dosage.amount === 1 ? singular : plural}`;
+}
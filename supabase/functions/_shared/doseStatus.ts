@@ -0,0 +1,213 @@
+/**
+ * Shared dose status updates for edge functions
+ *
+ * Records a dose acknowledged outside the app (IVR key press in make-call,
+ * SMS reply in send-sms) on dose_events, mirrors it onto
+ * medication_schedules.is_taken for the scheduler, and uses up inventory
+ * the same way the app does.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getDoseDate, getUserTimezone, loadUserTimezones } from "./timezone.ts";
+
+const RESET_HOUR = 3; // Dose day boundary (matches RESET_HOUR in constants/time.ts)
+
+// dose_events.source values written from edge functions
+export type DoseSource = 'ivr' | 'sms';
+
+interface ScheduleInventory {
+  id: string; // medication_schedules.id
+  medication_id: string;
+  is_taken: boolean;
+  medications: { inventory_count: number | null; units_per_dose: number } | null;
+}
+
+/**
+ * Update medication status in database (BATCH version)
+ * 
+ * Schema:
+ * - dose_events: one row per schedule per dose day (source of truth)
+ * - medication_schedules.is_taken: mirror flag still read by schedule-batches
+ * 
+ * medicationIds are medication_schedules ids. logIds are the dose_events ids
+ * created by schedule-batches. Legacy single-medication requests have no
+ * logId, so their events are upserted from the schedule rows instead.
+ * source records the channel that acknowledged the dose (IVR call or SMS reply).
+ */
+export async function updateDoseStatusBatch(
+  medicationIds: string[],
+  logIds: string[],
+  status: 'taken' | 'skipped',
+  source: DoseSource
+): Promise<void> {
+  try {
+    console.log('💾 Attempting batch DB update:', { medicationIds, logIds, status, source });
+    
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.warn('⚠️ Missing Supabase credentials for DB update');
+      return;
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const nowISO = new Date().toISOString();
+    const eventUpdate = {
+      status,
+      taken_at: status === 'taken' ? nowISO : null,
+      source,
+      updated_at: nowISO,
+    };
+
+    // Step 1: Record the outcome on the dose events for this call
+    if (logIds.length > 0) {
+      console.log(`💾 Updating ${logIds.length} dose events to status=${status}...`);
+
+      const { error } = await supabase
+        .from('dose_events')
+        .update(eventUpdate)
+        .in('id', logIds);
+
+      if (error) {
+        console.error('❌ Failed to update dose events:', {
+          error: error.message,
+          details: error.details,
+          hint: error.hint,
+          code: error.code,
+          logIds: logIds
+        });
+      } else {
+        console.log(`✅ SUCCESS: ${logIds.length} dose events marked as ${status}`);
+      }
+    } else if (medicationIds.length > 0) {
+      console.log('💾 No logIds provided (legacy request) - upserting dose events from schedules');
+
+      const { data: meds, error: fetchError } = await supabase
+        .from('medication_schedules')
+        .select('id, medication_id, user_id, time')
+        .in('id', medicationIds);
+
+      if (fetchError) {
+        console.error('❌ Failed to fetch medications for dose events:', fetchError.message);
+      } else {
+        const now = new Date();
+        const userTimezones = await loadUserTimezones(supabase, [...new Set((meds || []).map(med => med.user_id))]);
+        const { error } = await supabase
+          .from('dose_events')
+          .upsert(
+            (meds || []).map(med => ({
+              medication_id: med.medication_id,
+              schedule_id: med.id,
+              user_id: med.user_id,
+              dose_date: getDoseDate(now, getUserTimezone(userTimezones, med.user_id), RESET_HOUR),
+              scheduled_time: med.time,
+              ...eventUpdate,
+            })),
+            { onConflict: 'schedule_id,dose_date' }
+          );
+
+        if (error) {
+          console.error('❌ Failed to upsert dose events:', error.message);
+        } else {
+          console.log(`✅ SUCCESS: ${meds?.length || 0} dose events recorded`);
+        }
+      }
+    }
+
+    // Step 2: Mirror onto medication_schedules.is_taken for the scheduler
+    if (medicationIds.length > 0) {
+      // Read taken state + inventory first, so only real transitions
+      // (not taken -> taken, or back) change the pill count
+      const previousSchedules = await loadScheduleInventory(supabase, medicationIds);
+
+      console.log(`💾 Batch updating ${medicationIds.length} medications to is_taken=${status === 'taken'}...`);
+      console.log('💾 Medication IDs being updated:', medicationIds);
+      
+      // Update all medications in one query using .in()
+      const { error, count } = await supabase
+        .from('medication_schedules')
+        .update({ is_taken: status === 'taken' })
+        .in('id', medicationIds);
+
+      if (error) {
+        console.error('❌ Failed to batch update medications:', {
+          error: error.message,
+          details: error.details,
+          hint: error.hint,
+          code: error.code,
+          medicationIds: medicationIds
+        });
+      } else {
+        console.log(`✅ SUCCESS: ${count || medicationIds.length} medications updated`);
+        console.log('✅ Updated medication IDs:', medicationIds);
+
+        // Step 3: Use up (or give back) inventory for tracked medications
+        await adjustInventoryForStatus(supabase, previousSchedules, status);
+      }
+    } else {
+      console.warn('⚠️ No medication IDs provided for database update');
+      console.warn('⚠️ This means medications will NOT be marked as taken!');
+    }
+  } catch (error) {
+    console.error('❌ Database batch update exception:', {
+      error: (error as Error).message,
+      stack: (error as Error).stack
+    });
+  }
+}
+
+/**
+ * Load each schedule's taken flag and its medication's inventory settings
+ */
+async function loadScheduleInventory(
+  supabase: ReturnType<typeof createClient>,
+  medicationIds: string[]
+): Promise<ScheduleInventory[]> {
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select('id, medication_id, is_taken, medications(inventory_count, units_per_dose)')
+    .in('id', medicationIds);
+
+  if (error) {
+    console.error('❌ Failed to load inventory state:', error.message);
+    return [];
+  }
+
+  return (data || []) as ScheduleInventory[];
+}
+
+/**
+ * Apply a batch status change to inventory (decrement on taken)
+ * Matches the app: units_per_dose per schedule that changed state, and
+ * medications without an inventory_count are left alone.
+ */
+async function adjustInventoryForStatus(
+  supabase: ReturnType<typeof createClient>,
+  schedules: ScheduleInventory[],
+  status: 'taken' | 'skipped'
+): Promise<void> {
+  const nowTaken = status === 'taken';
+  const deltas = new Map<string, number>();
+
+  for (const schedule of schedules) {
+    if (schedule.medications?.inventory_count == null) continue;
+    if (schedule.is_taken === nowTaken) continue;
+
+    const units = schedule.medications.units_per_dose || 1;
+    deltas.set(schedule.medication_id, (deltas.get(schedule.medication_id) || 0) + (nowTaken ? -units : units));
+  }
+
+  for (const [medicationId, delta] of deltas) {
+    const { data, error } = await supabase.rpc('adjust_medication_inventory', {
+      p_medication_id: medicationId,
+      p_delta: delta,
+    });
+
+    if (error) {
+      console.error('❌ Failed to adjust inventory:', { medicationId, delta, error: error.message });
+    } else {
+      console.log(`💊 Inventory for ${medicationId}: ${delta > 0 ? '+' : ''}${delta} -> ${data} left`);
+    }
+  }
+}
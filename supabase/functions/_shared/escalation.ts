@@ -0,0 +1,111 @@
+/**
+ * Shared escalation ladder helpers for edge functions
+ *
+ * A user's escalation policy (profiles.escalation_policy) is an ordered list
+ * of steps, each fired a number of minutes after the scheduled dose time T
+ * while the dose is still unacknowledged:
+ *
+ *   [{ "offset_minutes": 0,  "channel": "local_alarm" },
+ *    { "offset_minutes": 10, "channel": "call" },
+ *    { "offset_minutes": 25, "channel": "call" },
+ *    { "offset_minutes": 40, "channel": "caregiver_sms" }]
+ *
+ * Users without a policy (NULL) keep the original 2-strike call behaviour.
+ * Every step's outcome is stored in dose_escalations, one row per
+ * schedule + dose day + step index.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type EscalationChannel = 'local_alarm' | 'call' | 'caregiver_sms';
+
+export type EscalationStatus = 'pending' | 'delegated' | 'sent' | 'failed' | 'skipped' | 'cancelled';
+
+export interface EscalationStep {
+  offset_minutes: number;
+  channel: EscalationChannel;
+}
+
+export interface EscalationProfile {
+  policy: EscalationStep[];
+  caregiverPhone: string | null;
+}
+
+export const ESCALATION_CHANNELS: EscalationChannel[] = ['local_alarm', 'call', 'caregiver_sms'];
+
+// Longest offset accepted for a step (a dose day is 24 hours long)
+export const MAX_ESCALATION_OFFSET_MINUTES = 12 * 60;
+
+/**
+ * Validate a stored policy and sort its steps by offset
+ * Returns null for anything unusable, so the user falls back to 2-strike calls
+ */
+export function parseEscalationPolicy(raw: unknown): EscalationStep[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const steps: EscalationStep[] = [];
+  for (const item of raw) {
+    const offset = (item as EscalationStep)?.offset_minutes;
+    const channel = (item as EscalationStep)?.channel;
+
+    if (!Number.isInteger(offset) || offset < 0 || offset > MAX_ESCALATION_OFFSET_MINUTES) return null;
+    if (!ESCALATION_CHANNELS.includes(channel)) return null;
+
+    steps.push({ offset_minutes: offset, channel });
+  }
+
+  return steps.sort((a, b) => a.offset_minutes - b.offset_minutes);
+}
+
+/**
+ * Load escalation policies for every user that has a valid one
+ */
+export async function loadEscalationProfiles(
+  supabase: ReturnType<typeof createClient>
+): Promise<Map<string, EscalationProfile>> {
+  const profiles = new Map<string, EscalationProfile>();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, escalation_policy, caregiver_phone')
+    .not('escalation_policy', 'is', null);
+
+  if (error) {
+    console.error('❌ Failed to load escalation policies:', error.message);
+    return profiles;
+  }
+
+  for (const profile of data || []) {
+    const policy = parseEscalationPolicy(profile.escalation_policy);
+    if (!policy) {
+      console.warn(`⚠️ Ignoring invalid escalation policy for user ${profile.id}`);
+      continue;
+    }
+    profiles.set(profile.id, { policy, caregiverPhone: profile.caregiver_phone || null });
+  }
+
+  return profiles;
+}
+
+/**
+ * Indexes of the steps due at minutesSinceDose after the last recorded step
+ * (lastRecorded = -1 when the ladder has not started)
+ *
+ * Only the latest due step is worth running; earlier unrecorded ones were
+ * missed (e.g. the scheduler was down) and come back as superseded.
+ */
+export function getDueSteps(
+  policy: EscalationStep[],
+  minutesSinceDose: number,
+  lastRecorded: number
+): { run: number | null; superseded: number[] } {
+  const due: number[] = [];
+  policy.forEach((step, index) => {
+    if (index > lastRecorded && step.offset_minutes <= minutesSinceDose) {
+      due.push(index);
+    }
+  });
+
+  if (due.length === 0) return { run: null, superseded: [] };
+  return { run: due[due.length - 1], superseded: due.slice(0, -1) };
+}
@@ -0,0 +1,44 @@
+/**
+ * Shared inventory helpers for edge functions
+ *
+ * Days of supply = units on hand / average units used per day, where daily
+ * usage comes from the medication's schedules and their recurrence rules.
+ * Mirrors features/medications/utils/inventory.ts in the app - keep the two in sync.
+ */
+
+import type { RecurrenceRule } from "./recurrence.ts";
+
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+/**
+ * Average number of doses per day a recurrence rule produces
+ */
+export function getDosesPerDay(rule: RecurrenceRule | null | undefined): number {
+  if (!rule) return 1;
+
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays.length / 7;
+    case 'interval':
+      return 1 / Math.max(1, rule.everyDays);
+    case 'cyclic':
+      return rule.daysOn / Math.max(1, rule.daysOn + rule.daysOff);
+    case 'monthly':
+      return 1 / AVERAGE_DAYS_PER_MONTH;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Whole days of supply left, or null if usage is zero
+ */
+export function getDaysOfSupply(
+  inventoryCount: number,
+  unitsPerDose: number,
+  recurrences: (RecurrenceRule | null)[]
+): number | null {
+  const dailyUnits = recurrences.reduce((sum, rule) => sum + getDosesPerDay(rule), 0) * unitsPerDose;
+  if (dailyUnits <= 0) return null;
+  return Math.floor(inventoryCount / dailyUnits);
+}
@@ -0,0 +1,47 @@
+/**
+ * Shared push notifications for edge functions
+ *
+ * Sends through the Expo push service to the token the app stores on
+ * profiles.expo_push_token. Never throws: failures come back as
+ * { success: false, error }.
+ */
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+export interface PushResult {
+  success: boolean;
+  ticketId?: string;
+  error?: string;
+}
+
+/**
+ * Send one push notification to an Expo push token
+ */
+export async function sendPush(
+  token: string,
+  title: string,
+  body: string,
+  data: Record<string, string> = {}
+): Promise<PushResult> {
+  try {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ to: token, title, body, data, sound: 'default', priority: 'high' }),
+    });
+
+    const result = await response.json();
+    const ticket = result.data;
+
+    if (!response.ok || ticket?.status !== 'ok') {
+      return { success: false, error: ticket?.message || result.errors?.[0]?.message || `HTTP ${response.status}` };
+    }
+
+    return { success: true, ticketId: ticket.id };
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared recurrence helpers for edge functions
+ *
+ * Each medication_schedules row carries a recurrence rule (JSONB) describing
+ * which dose days it is due on, and its medication may limit that to a course
+ * window (medications.start_date / end_date). Mirrors features/medications/utils/recurrence.ts
+ * in the app - keep the two in sync.
+ *
+ * All dates are dose days (YYYY-MM-DD, see getDoseDate in timezone.ts), so a
+ * 01:00 dose on a Tuesday schedule rings in the early hours of Wednesday.
+ */
+
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] } // 0 = Sunday ... 6 = Saturday
+  | { type: 'interval'; everyDays: number; startDate: string }
+  | { type: 'cyclic'; daysOn: number; daysOff: number; startDate: string }
+  | { type: 'monthly'; dayOfMonth: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a schedule is due on a dose day
+ * A missing or unknown rule is treated as daily (schedules created before recurrence)
+ */
+export function isDoseDay(rule: RecurrenceRule | null | undefined, doseDate: string): boolean {
+  if (!rule) return true;
+
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays.includes(toUTCDate(doseDate).getUTCDay());
+
+    case 'interval': {
+      const elapsed = daysBetween(rule.startDate, doseDate);
+      return elapsed >= 0 && elapsed % Math.max(1, rule.everyDays) === 0;
+    }
+
+    case 'cyclic': {
+      const elapsed = daysBetween(rule.startDate, doseDate);
+      const cycleLength = Math.max(1, rule.daysOn + rule.daysOff);
+      return elapsed >= 0 && elapsed % cycleLength < rule.daysOn;
+    }
+
+    case 'monthly': {
+      const date = toUTCDate(doseDate);
+      const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      // Day 31 in a 30-day month (or 29+ in February) falls on the last day
+      return date.getUTCDate() === Math.min(rule.dayOfMonth, lastDay);
+    }
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check whether a dose day falls inside a medication's course (inclusive)
+ * NULL bounds are open-ended
+ */
+export function isWithinCourse(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  doseDate: string
+): boolean {
+  if (startDate && doseDate < startDate) return false;
+  if (endDate && doseDate > endDate) return false;
+  return true;
+}
+
+function toUTCDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUTCDate(to).getTime() - toUTCDate(from).getTime()) / DAY_MS);
+}
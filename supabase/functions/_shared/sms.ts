@@ -0,0 +1,56 @@
+/**
+ * Shared SMS sender for edge functions
+ *
+ * Posts to the Twilio Messaging REST API with fetch, using the same
+ * TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_PHONE_NUMBER secrets as
+ * make-call. Never throws: failures come back as { success: false, error }.
+ */
+
+export interface SmsResult {
+  success: boolean;
+  messageSid?: string;
+  error?: string;
+}
+
+/**
+ * Send a text message to an E.164 phone number
+ * statusCallback (optional) receives Twilio's delivery status updates
+ */
+export async function sendSms(to: string, body: string, statusCallback?: string): Promise<SmsResult> {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
+
+  if (!accountSid || !authToken || !fromNumber) {
+    return { success: false, error: 'Missing Twilio credentials' };
+  }
+
+  try {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: to,
+          From: fromNumber,
+          Body: body,
+          ...(statusCallback ? { StatusCallback: statusCallback } : {}),
+        }),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.message || `HTTP ${response.status}` };
+    }
+
+    return { success: true, messageSid: data.sid };
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+}
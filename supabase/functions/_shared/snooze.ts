@@ -0,0 +1,61 @@
+/**
+ * Shared snooze helpers for edge functions
+ *
+ * Each user picks how long a snooze lasts (profiles.snooze_minutes: 5, 10,
+ * 15 or 30). A snoozed dose carries medication_schedules.snoozed_until,
+ * set by the app's Snooze button and by schedule-batches after every call;
+ * the next call for that dose is anchored at snoozed_until.
+ * Mirrors SNOOZE_OPTIONS_MINUTES / DEFAULT_SNOOZE_MINUTES in
+ * constants/notifications.ts - keep the two in sync.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const SNOOZE_OPTIONS_MINUTES = [5, 10, 15, 30];
+
+// Snooze length for users who never picked one
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+/**
+ * Load snooze lengths for users from profiles
+ * Users without a profile row or with an unsupported value get DEFAULT_SNOOZE_MINUTES
+ */
+export async function loadUserSnoozeMinutes(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, number>> {
+  const snoozeMinutes = new Map<string, number>();
+  if (userIds.length === 0) return snoozeMinutes;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, snooze_minutes')
+    .in('id', userIds);
+
+  if (error) {
+    console.error('❌ Failed to load snooze settings:', error.message);
+    return snoozeMinutes;
+  }
+
+  for (const profile of data || []) {
+    if (SNOOZE_OPTIONS_MINUTES.includes(profile.snooze_minutes)) {
+      snoozeMinutes.set(profile.id, profile.snooze_minutes);
+    }
+  }
+
+  return snoozeMinutes;
+}
+
+/**
+ * Get a user's snooze length from a loaded map (falls back to DEFAULT_SNOOZE_MINUTES)
+ */
+export function getUserSnoozeMinutes(snoozeMinutes: Map<string, number>, userId: string): number {
+  return snoozeMinutes.get(userId) ?? DEFAULT_SNOOZE_MINUTES;
+}
+
+/**
+ * Check whether a dose is snoozed past an instant
+ */
+export function isSnoozedAt(snoozedUntil: string | null, at: Date): boolean {
+  return snoozedUntil !== null && new Date(snoozedUntil).getTime() > at.getTime();
+}
@@ -0,0 +1,57 @@
+/**
+ * Shared taper plan helpers for edge functions
+ *
+ * A medication may carry a taper plan (medications.taper_plan JSONB): a list
+ * of dosage amounts, each held for a number of dose days, starting on
+ * startDate. Steps use the medication's own unit and form.
+ * Mirrors features/medications/utils/taper.ts in the app - keep the two in sync.
+ *
+ * Example: 40mg for 5 days, then 30mg for 5 days, then 20mg for 5 days
+ *   { "startDate": "2025-01-01", "steps": [
+ *       { "amount": 40, "days": 5 },
+ *       { "amount": 30, "days": 5 },
+ *       { "amount": 20, "days": 5 } ] }
+ */
+
+import type { Dosage } from "./dosage.ts";
+
+export interface TaperStep {
+  amount: number;
+  days: number;
+}
+
+export interface TaperPlan {
+  startDate: string; // YYYY-MM-DD dose day of the first step
+  steps: TaperStep[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the dosage in effect on a dose day
+ * Before the plan starts and after its last step, the medication's regular
+ * dosage applies.
+ */
+export function getDosageForDate(
+  dosage: Dosage,
+  plan: TaperPlan | null | undefined,
+  doseDate: string
+): Dosage {
+  if (!plan || plan.steps.length === 0) return dosage;
+
+  let elapsed = daysBetween(plan.startDate, doseDate);
+  if (elapsed < 0) return dosage;
+
+  for (const step of plan.steps) {
+    if (elapsed < step.days) return { ...dosage, amount: step.amount };
+    elapsed -= step.days;
+  }
+
+  return dosage;
+}
+
+function daysBetween(from: string, to: string): number {
+  const fromMs = new Date(`${from}T00:00:00Z`).getTime();
+  const toMs = new Date(`${to}T00:00:00Z`).getTime();
+  return Math.round((toMs - fromMs) / DAY_MS);
+}
@@ -0,0 +1,196 @@
+/**
+ * Shared timezone helpers for edge functions
+ *
+ * Every user has an IANA timezone on profiles.timezone (captured from the
+ * device on sign-in). Medication times are stored as local "HH:MM" strings,
+ * so all "what time is it for this user" logic goes through these helpers.
+ *
+ * DST is handled by Intl: local times are always derived from the real
+ * instant, and getLocalTimesInWindow() fills in wall-clock minutes that a
+ * spring-forward transition skips so those doses are not lost.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Timezone used when a profile has none (all users before per-user timezones)
+export const DEFAULT_TIMEZONE = 'Asia/Karachi';
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Check that a string is a timezone Intl understands
+ */
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get wall-clock date and time parts for an instant in a timezone
+ */
+function getLocalParts(date: Date, timeZone: string): { date: string; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour'), 10) % 24,
+    minute: parseInt(get('minute'), 10),
+  };
+}
+
+/**
+ * Get local "HH:MM" (24-hour) for an instant in a timezone
+ */
+export function getLocalTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getLocalParts(date, timeZone);
+  return formatMinutes(hour * 60 + minute);
+}
+
+/**
+ * Get the dose day (YYYY-MM-DD) for an instant in a timezone
+ * A dose day runs from resetHour to resetHour the next morning
+ */
+export function getDoseDate(date: Date, timeZone: string, resetHour: number): string {
+  const local = getLocalParts(date, timeZone);
+  return local.hour < resetHour ? shiftDate(local.date, -1) : local.date;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the instant a dose scheduled at "HH:MM" on a dose day is due
+ * Times before resetHour belong to the next calendar morning. A wall-clock
+ * time skipped or repeated by a DST transition resolves to a neighbouring instant.
+ */
+export function getDoseInstant(doseDate: string, time: string, timeZone: string, resetHour: number): Date {
+  const minutes = toMinutes(time);
+  const date = minutes < resetHour * 60 ? shiftDate(doseDate, 1) : doseDate;
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+
+  // Offset of the zone at a nearby instant, then corrected once for DST
+  let instant = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - getOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Zone offset from UTC (ms) at an instant, to minute precision
+ */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const local = getLocalParts(date, timeZone);
+  const asUtc = new Date(`${local.date}T${formatMinutes(local.hour * 60 + local.minute)}:00Z`).getTime();
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * List every local "HH:MM" that falls in the window (start, end] for a timezone
+ *
+ * Walks the window minute by minute. When a DST spring-forward makes the
+ * local clock jump (e.g. 01:59 -> 03:00), the skipped minutes are included
+ * too, so a dose scheduled at 02:30 still fires on that night.
+ */
+export function getLocalTimesInWindow(start: Date, end: Date, timeZone: string): string[] {
+  const times: string[] = [];
+  let previous = toMinutes(getLocalTime(start, timeZone));
+
+  for (let t = start.getTime() + MINUTE_MS; t <= end.getTime(); t += MINUTE_MS) {
+    const current = toMinutes(getLocalTime(new Date(t), timeZone));
+    const step = (current - previous + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+    // step > 1 only happens on a spring-forward jump: include the gap
+    for (let skipped = 1; skipped < step && skipped < 120; skipped++) {
+      times.push(formatMinutes((previous + skipped) % MINUTES_PER_DAY));
+    }
+
+    times.push(formatMinutes(current));
+    previous = current;
+  }
+
+  return times;
+}
+
+/**
+ * Check whether "HH:MM" lies in [start, end], handling midnight crossover
+ * Example: start 23:50, end 00:20 -> 23:55 and 00:10 are both inside
+ */
+export function isTimeInWindow(time: string, start: string, end: string): boolean {
+  if (end < start) {
+    return time >= start || time <= end;
+  }
+  return time >= start && time <= end;
+}
+
+/**
+ * Load timezones for users from profiles
+ * Users without a profile row or with an invalid value get DEFAULT_TIMEZONE
+ */
+export async function loadUserTimezones(
+  supabase: ReturnType<typeof createClient>,
+  userIds?: string[]
+): Promise<Map<string, string>> {
+  const timezones = new Map<string, string>();
+
+  let query = supabase.from('profiles').select('id, timezone');
+  if (userIds) {
+    if (userIds.length === 0) return timezones;
+    query = query.in('id', userIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('❌ Failed to load user timezones:', error.message);
+    return timezones;
+  }
+
+  for (const profile of data || []) {
+    if (isValidTimezone(profile.timezone)) {
+      timezones.set(profile.id, profile.timezone);
+    } else if (profile.timezone) {
+      console.warn(`⚠️ Invalid timezone "${profile.timezone}" for user ${profile.id}, using ${DEFAULT_TIMEZONE}`);
+    }
+  }
+
+  return timezones;
+}
+
+/**
+ * Get a user's timezone from a loaded map (falls back to DEFAULT_TIMEZONE)
+ */
+export function getUserTimezone(timezones: Map<string, string>, userId: string): string {
+  return timezones.get(userId) || DEFAULT_TIMEZONE;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60).toString().padStart(2, '0');
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Shared Twilio webhook signature validation for edge functions
+ *
+ * Twilio signs every webhook with X-Twilio-Signature: base64 HMAC-SHA1 of the
+ * full URL it requested followed by each POST parameter (sorted by name,
+ * name then value), keyed with TWILIO_AUTH_TOKEN. A request whose signature
+ * doesn't match did not come from our Twilio account.
+ * https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ *
+ * Local development only: TWILIO_SKIP_SIGNATURE_VALIDATION=true skips the
+ * check, and is ignored unless SUPABASE_URL points at localhost, so it can't
+ * switch validation off in a deployed project.
+ */
+
+/**
+ * Public URL Twilio called for a function
+ * Rebuilt from SUPABASE_URL because req.url inside the edge runtime is the
+ * internal address, not the one Twilio signed.
+ */
+export function getPublicFunctionUrl(functionName: string, url: URL): string | null {
+  const origin = Deno.env.get('SUPABASE_URL');
+  if (!origin) return null;
+  return `${origin}/functions/v1/${functionName}${url.search}`;
+}
+
+/**
+ * Flatten a webhook's form body into the params that were signed
+ */
+export function formDataToParams(formData: FormData): Record<string, string> {
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    params[key] = value.toString();
+  });
+  return params;
+}
+
+/**
+ * Compute the X-Twilio-Signature Twilio would send for a request
+ */
+export async function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>
+): Promise<string> {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Is signature validation explicitly switched off for local development?
+ */
+function isValidationSkipped(): boolean {
+  if (Deno.env.get('TWILIO_SKIP_SIGNATURE_VALIDATION') !== 'true') return false;
+
+  const origin = Deno.env.get('SUPABASE_URL') || '';
+  const isLocal = /^https?:\/\/(localhost|127\.0\.0\.1|host\.docker\.internal|kong)(:\d+)?(\/|$)/.test(origin);
+  if (!isLocal) {
+    console.error('🛑 TWILIO_SKIP_SIGNATURE_VALIDATION ignored: SUPABASE_URL is not local');
+    return false;
+  }
+
+  console.warn('⚠️ Twilio signature validation SKIPPED (local development)');
+  return true;
+}
+
+/**
+ * Check a webhook's X-Twilio-Signature against TWILIO_AUTH_TOKEN
+ * Returns false when the header, the token or the public URL is missing.
+ */
+export async function isValidTwilioRequest(
+  req: Request,
+  publicUrl: string | null,
+  params: Record<string, string>
+): Promise<boolean> {
+  if (isValidationSkipped()) return true;
+
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const signature = req.headers.get('X-Twilio-Signature');
+
+  if (!authToken || !signature || !publicUrl) {
+    console.warn('⚠️ Twilio signature check failed: missing', {
+      authToken: !authToken,
+      signature: !signature,
+      publicUrl: !publicUrl,
+    });
+    return false;
+  }
+
+  const expected = await computeTwilioSignature(authToken, publicUrl, params);
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
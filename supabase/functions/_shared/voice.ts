@@ -0,0 +1,72 @@
+/**
+ * Shared announcement calls for edge functions
+ *
+ * Places a one-way Twilio voice call that reads a message out (inline TwiML,
+ * no callbacks), using the same TWILIO_* secrets as make-call. Never throws:
+ * failures come back as { success: false, error }.
+ */
+
+export interface VoiceCallResult {
+  success: boolean;
+  callSid?: string;
+  error?: string;
+}
+
+/**
+ * Escape special XML characters for TwiML
+ */
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Call an E.164 phone number and read the message out twice
+ */
+export async function placeAnnouncementCall(to: string, message: string): Promise<VoiceCallResult> {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
+
+  if (!accountSid || !authToken || !fromNumber) {
+    return { success: false, error: 'Missing Twilio credentials' };
+  }
+
+  const safeMessage = escapeXML(message);
+  const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Pause length="1"/>
+  <Say voice="alice">${safeMessage}</Say>
+  <Pause length="1"/>
+  <Say voice="alice">Again: ${safeMessage}</Say>
+  <Hangup/>
+</Response>`;
+
+  try {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: fromNumber, Twiml: twiml }),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.message || `HTTP ${response.status}` };
+    }
+
+    return { success: true, callSid: data.sid };
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,375 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Daily Rollover Edge Function (Cron Job)
+ *
+ * This function runs periodically (e.g., every 15 minutes) to close out the
+ * previous dose day once RESET_HOUR has passed:
+ * 1. Find medication schedules whose last_reset_date is older than the current dose day
+ * 2. Archive yesterday's outcome into dose_events (taken, or missed if never taken)
+ * 3. Reset is_taken, retry_count, failed_dial_count, last_called_at,
+ *    snoozed_until and caregiver_alerted_at so schedule-batches anchors (and
+ *    caregiver alerts) fire again for the new day
+ * 4. Archive medications whose course (end_date) has finished
+ *
+ * A dose day runs from RESET_HOUR (03:00) to RESET_HOUR the next morning in
+ * each user's own timezone (profiles.timezone), matching isMedicationMissed()
+ * in the app and getDoseDate() in _shared/timezone.ts.
+ *
+ * Idempotent: each medication is reset at most once per dose day, so running
+ * more often (or missing a run) is safe.
+ *
+ * Manual trigger: POST /functions/v1/daily-rollover
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isDoseDay, isWithinCourse, type RecurrenceRule } from "../_shared/recurrence.ts";
+import {
+  DEFAULT_TIMEZONE,
+  getDoseDate,
+  getUserTimezone,
+  loadUserTimezones,
+  shiftDate,
+} from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Configuration
+const RESET_HOUR = 3; // Dose day boundary (matches RESET_HOUR in constants/time.ts)
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface RolloverMedication {
+  id: string;         // medication_schedules.id
+  medication_id: string;
+  time: string;       // "HH:MM" format
+  recurrence: RecurrenceRule | null;
+  user_id: string;
+  is_taken: boolean;
+  last_reset_date: string | null;
+  medications: { start_date: string | null; end_date: string | null } | null;
+}
+
+interface RolloverResult {
+  success: boolean;
+  medications_reset: number;
+  events_archived: number;
+  courses_archived: number;
+  errors: string[];
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('🌅 ========================================');
+  console.log('🌅 DAILY-ROLLOVER CRON JOB STARTED');
+  console.log('🌅 Timestamp:', new Date().toISOString());
+  console.log('🌅 ========================================');
+
+  try {
+    const result = await processDailyRollover();
+
+    console.log('✅ Rollover completed:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Rollover failed:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: (error as Error).message,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
+
+// ============================================================================
+// CORE LOGIC
+// ============================================================================
+
+async function processDailyRollover(): Promise<RolloverResult> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase credentials');
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const now = new Date();
+
+  const result: RolloverResult = {
+    success: true,
+    medications_reset: 0,
+    events_archived: 0,
+    courses_archived: 0,
+    errors: [],
+  };
+
+  // Current dose day for every timezone in use. The latest one bounds the
+  // query; the exact per-user comparison happens in memory below.
+  const userTimezones = await loadUserTimezones(supabase);
+  const latestDoseDate = [DEFAULT_TIMEZONE, ...userTimezones.values()]
+    .map(timeZone => getDoseDate(now, timeZone, RESET_HOUR))
+    .sort()
+    .pop()!;
+
+  console.log(`📅 Latest dose day across ${userTimezones.size} user timezones: ${latestDoseDate}`);
+
+  // STEP 1: Find medications not yet rolled over into their current dose day
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select('id, medication_id, time, recurrence, user_id, is_taken, last_reset_date, medications(start_date, end_date)')
+    .or(`last_reset_date.is.null,last_reset_date.lt.${latestDoseDate}`);
+
+  if (error) {
+    throw new Error(`Failed to query medications: ${error.message}`);
+  }
+
+  // Group by the owner's local dose day, dropping users whose day hasn't turned yet
+  const medsByDoseDate = new Map<string, RolloverMedication[]>();
+  for (const med of (data || []) as RolloverMedication[]) {
+    const doseDate = getDoseDate(now, getUserTimezone(userTimezones, med.user_id), RESET_HOUR);
+    if (med.last_reset_date && med.last_reset_date >= doseDate) continue;
+
+    if (!medsByDoseDate.has(doseDate)) {
+      medsByDoseDate.set(doseDate, []);
+    }
+    medsByDoseDate.get(doseDate)!.push(med);
+  }
+
+  if (medsByDoseDate.size === 0) {
+    console.log('📭 Nothing to roll over (all medications already reset for today)');
+  }
+
+  for (const [doseDate, medications] of medsByDoseDate) {
+    await rolloverDoseDate(supabase, medications, doseDate, result);
+  }
+
+  // STEP 4: Archive finished courses (after their last day has been archived above)
+  await archiveFinishedCourses(supabase, userTimezones, now, latestDoseDate, result);
+
+  result.success = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Roll a group of medications (all on the same local dose day) into doseDate
+ */
+async function rolloverDoseDate(
+  supabase: ReturnType<typeof createClient>,
+  medications: RolloverMedication[],
+  doseDate: string,
+  result: RolloverResult
+): Promise<void> {
+  const previousDoseDate = shiftDate(doseDate, -1);
+  console.log(`📅 Dose day ${doseDate}: ${medications.length} medications (closing ${previousDoseDate})`);
+
+  // Medications that have never been rolled over were created during the
+  // current dose day: stamp them without touching is_taken (a dose taken
+  // right after creation must not be wiped) and without archiving a day
+  // they did not exist for.
+  const firstSeen = medications.filter(med => !med.last_reset_date);
+  const due = medications.filter(med => med.last_reset_date);
+
+  if (firstSeen.length > 0) {
+    const { error: stampError } = await supabase
+      .from('medication_schedules')
+      .update({ last_reset_date: doseDate })
+      .in('id', firstSeen.map(med => med.id));
+
+    if (stampError) {
+      console.error('❌ Failed to stamp new medications:', stampError.message);
+      result.errors.push(`Stamp failed (${doseDate}): ${stampError.message}`);
+    } else {
+      console.log(`🆕 Stamped ${firstSeen.length} new medications with ${doseDate}`);
+    }
+  }
+
+  if (due.length === 0) {
+    return;
+  }
+
+  console.log(`🔄 Rolling over ${due.length} medications`);
+
+  // STEP 2: Archive yesterday's outcome
+  const archived = await archiveDoseOutcomes(supabase, due, previousDoseDate);
+
+  if (archived === null) {
+    // CIRCUIT BREAKER: never reset state we failed to archive
+    result.errors.push(`Archive failed (${previousDoseDate}): medications were not reset`);
+    return;
+  }
+
+  result.events_archived += archived;
+
+  // STEP 3: Reset call/taken state for the new dose day
+  const { error: resetError } = await supabase
+    .from('medication_schedules')
+    .update({
+      is_taken: false,
+      retry_count: 0,
+      failed_dial_count: 0,
+      last_called_at: null,
+      snoozed_until: null,
+      caregiver_alerted_at: null,
+      last_reset_date: doseDate,
+    })
+    .in('id', due.map(med => med.id));
+
+  if (resetError) {
+    console.error('❌ Failed to reset medications:', resetError.message);
+    result.errors.push(`Reset failed (${doseDate}): ${resetError.message}`);
+  } else {
+    result.medications_reset += due.length;
+    console.log(`✅ Reset ${due.length} medications for ${doseDate}`);
+  }
+}
+
+/**
+ * Write the final outcome of each medication's dose for the closing day
+ *
+ * - No event yet: insert one (taken if is_taken, otherwise missed)
+ * - Pending event: finalize it the same way
+ * - Already taken/skipped/missed: left as-is (the app or IVR recorded it)
+ * - Not due that day (recurrence, or outside the course) and never taken:
+ *   nothing is written
+ *
+ * Returns the number of events written, or null on failure
+ */
+async function archiveDoseOutcomes(
+  supabase: ReturnType<typeof createClient>,
+  medications: RolloverMedication[],
+  doseDate: string
+): Promise<number | null> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('dose_events')
+    .select('id, schedule_id, status')
+    .in('schedule_id', medications.map(med => med.id))
+    .eq('dose_date', doseDate);
+
+  if (fetchError) {
+    console.error('❌ Failed to load dose events for archive:', fetchError.message);
+    return null;
+  }
+
+  const statusBySchedule = new Map<string, string>(
+    (existing || []).map(event => [event.schedule_id, event.status])
+  );
+
+  const nowISO = new Date().toISOString();
+  const rows = medications
+    .filter(med => {
+      const status = statusBySchedule.get(med.id);
+      const isDue = isDoseDay(med.recurrence, doseDate) &&
+        isWithinCourse(med.medications?.start_date, med.medications?.end_date, doseDate);
+      if (status === undefined && !med.is_taken && !isDue) {
+        return false; // Day off or outside the course - nothing was missed
+      }
+      return status === undefined || status === 'pending';
+    })
+    .map(med => ({
+      medication_id: med.medication_id,
+      schedule_id: med.id,
+      user_id: med.user_id,
+      dose_date: doseDate,
+      scheduled_time: med.time,
+      status: med.is_taken ? 'taken' : 'missed',
+      source: 'system',
+      updated_at: nowISO,
+    }));
+
+  if (rows.length === 0) {
+    console.log('📒 All dose events already final - nothing to archive');
+    return 0;
+  }
+
+  const { error } = await supabase
+    .from('dose_events')
+    .upsert(rows, { onConflict: 'schedule_id,dose_date' });
+
+  if (error) {
+    console.error('❌ Failed to archive dose events:', error.message);
+    return null;
+  }
+
+  const missedCount = rows.filter(row => row.status === 'missed').length;
+  console.log(`📒 Archived ${rows.length} dose events for ${doseDate} (${missedCount} missed)`);
+  return rows.length;
+}
+
+/**
+ * Archive medications whose course ended before the owner's current dose day
+ *
+ * Archived medications are hidden in the app and skipped by schedule-batches.
+ * Their dose history stays in dose_events.
+ */
+async function archiveFinishedCourses(
+  supabase: ReturnType<typeof createClient>,
+  userTimezones: Map<string, string>,
+  now: Date,
+  latestDoseDate: string,
+  result: RolloverResult
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('medications')
+    .select('id, name, user_id, end_date')
+    .is('archived_at', null)
+    .not('end_date', 'is', null)
+    .lt('end_date', latestDoseDate);
+
+  if (error) {
+    console.error('❌ Failed to query finished courses:', error.message);
+    result.errors.push(`Course archive query failed: ${error.message}`);
+    return;
+  }
+
+  // end_date is the last dose day: finished once the owner's day has moved past it
+  const finished = (data || []).filter(med =>
+    med.end_date < getDoseDate(now, getUserTimezone(userTimezones, med.user_id), RESET_HOUR)
+  );
+
+  if (finished.length === 0) {
+    return;
+  }
+
+  const { error: archiveError } = await supabase
+    .from('medications')
+    .update({ archived_at: now.toISOString() })
+    .in('id', finished.map(med => med.id));
+
+  if (archiveError) {
+    console.error('❌ Failed to archive finished courses:', archiveError.message);
+    result.errors.push(`Course archive failed: ${archiveError.message}`);
+    return;
+  }
+
+  result.courses_archived += finished.length;
+  console.log(`🏁 Archived ${finished.length} finished courses: ${finished.map(med => med.name).join(', ')}`);
+}
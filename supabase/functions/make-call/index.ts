@@ -4,10 +4,18 @@
  * Twilio IVR (Interactive Voice Response) Edge Function
  * 
  * IMPORTANT: This function receives webhooks from Twilio which do NOT include
- * Supabase JWT tokens. If you have JWT verification enabled in config.toml,
- * you must either:
- * 1. Set `verify_jwt = false` for this specific function
- * 2. Or use Twilio signature validation instead
+ * Supabase JWT tokens, so it runs with `verify_jwt = false`. Placing a call
+ * requires `Authorization: Bearer <service role key>` (only schedule-batches
+ * calls it). The process_response webhook is accepted only with a valid X-Twilio-Signature
+ * (HMAC of the full callback URL and form body, see _shared/twilioSignature.ts);
+ * forged requests get a polite hang-up and change nothing.
+ *
+ * The batch behind each call lives in call_sessions; the IVR callback URL
+ * carries only the session's random token (?session=).
+ *
+ * Every call also reports its lifecycle (?flow=status) and answering machine
+ * detection (?flow=amd) to this function, recorded in call_attempts. A
+ * scheduler call that never reached the phone gives its 2-strike retry back.
  * 
  * This function is hardened with multiple error-handling layers to ensure
  * it NEVER returns HTTP 500 errors to Twilio (which cause "Application Error"
@@ -16,6 +24,20 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { updateDoseStatusBatch } from "../_shared/doseStatus.ts";
+import { formDataToParams, getPublicFunctionUrl, isValidTwilioRequest } from "../_shared/twilioSignature.ts";
+
+// Most strikes given back per dose per day for calls that failed to connect
+const MAX_FAILED_DIAL_REFUNDS = 3;
+
+// Call statuses after which Twilio sends nothing more
+const FINAL_CALL_STATUSES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+
+// Final statuses of calls that never reached the phone (no strike)
+// 'busy' and 'no-answer' are left out on purpose: the phone did ring (or
+// was in use), so the patient had the chance to pick up and the attempt
+// counts as a strike like a call that went unanswered on the line.
+const NOT_CONNECTED_STATUSES = ['failed', 'canceled'];
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,14 +49,17 @@ const corsHeaders = {
 // ============================================================================
 
 interface MedicationItem {
-  id: string;
+  id: string; // medication_schedules.id
   name: string;
-  logId?: string;
+  dosage?: string; // Today's spoken dosage (taper plans already resolved by schedule-batches)
+  logId?: string; // dose_events.id for this dose day
+  refill?: { medicationId: string; daysLeft: number }; // Low supply - mention in this call
 }
 
 interface CallRequestBody {
   phoneNumber: string;
   userName?: string;
+  userId?: string; // Patient being called (required; set by schedule-batches)
   // New batched format
   medications?: MedicationItem[];
   // Legacy single-medication format (backward compatibility)
@@ -43,6 +68,24 @@ interface CallRequestBody {
   logId?: string;
 }
 
+/**
+ * call_sessions row: the batch behind one outbound call
+ */
+interface CallSessionRow {
+  id: string;
+  token: string;
+  user_id: string;
+  user_name: string;
+  schedule_ids: string[];
+  log_ids: string[];
+  medication_names: string[];
+  attempt: number;
+  state: 'calling' | 'confirmed' | 'declined' | 'no_input' | 'failed';
+  gather_attempts: number;
+  response: string | null;
+  call_sid: string | null;
+}
+
 interface TwilioCallResponse {
   sid: string;
   [key: string]: unknown;
@@ -80,6 +123,21 @@ function createSpokenList(items: string[]): string {
   return `${otherItems.join(', ')}, and ${lastItem}`;
 }
 
+/**
+ * Spoken refill reminder for medications flagged as running low
+ * Returns an empty string when nothing is low (XML-escaped, ends with a space)
+ */
+function createRefillNote(medications: MedicationItem[]): string {
+  const low = medications.filter(m => m.refill);
+  if (low.length === 0) return '';
+
+  const soonest = Math.min(...low.map(m => m.refill!.daysLeft));
+  const when = soonest <= 0 ? 'today' : soonest === 1 ? 'in about 1 day' : `in about ${soonest} days`;
+  const names = createSpokenList(low.map(m => escapeXML(m.name)));
+
+  return `You are running low on ${names} and will run out ${when}. Please arrange a refill. `;
+}
+
 /**
  * Normalize request body to batch format
  * Supports both new batched format and legacy single-medication format
@@ -107,7 +165,7 @@ function normalizeToBatch(body: CallRequestBody): { medications: MedicationItem[
  * Detect if request is a Twilio webhook callback
  */
 function isTwilioWebhook(url: URL): boolean {
-  return url.searchParams.get('flow') === 'process_response';
+  return ['process_response', 'status', 'amd'].includes(url.searchParams.get('flow') || '');
 }
 
 /**
@@ -130,12 +188,12 @@ function createErrorTwiML(message: string): Response {
 /**
  * Create error response in JSON format for app calls
  */
-function createErrorJSON(message: string): Response {
+function createErrorJSON(message: string, status = 400): Response {
   return new Response(
     JSON.stringify({ error: message }),
     {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400,
+      status,
     }
   );
 }
@@ -151,6 +209,8 @@ async function createTwilioCall(
     from: string;
     twiml: string;
     timeLimit: number;
+    statusCallback: string; // Lifecycle events (initiated, ringing, answered, completed)
+    amdCallback: string;    // Asynchronous answering machine detection result
   }
 ): Promise<{ sid: string }> {
   const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls.json`;
@@ -163,7 +223,16 @@ async function createTwilioCall(
     From: params.from,
     Twiml: params.twiml,
     Timeout: params.timeLimit.toString(),
+    StatusCallback: params.statusCallback,
+    StatusCallbackMethod: 'POST',
+    MachineDetection: 'Enable',
+    AsyncAmd: 'true',
+    AsyncAmdStatusCallback: params.amdCallback,
+    AsyncAmdStatusCallbackMethod: 'POST',
   });
+  for (const event of ['initiated', 'ringing', 'answered', 'completed']) {
+    body.append('StatusCallbackEvent', event);
+  }
 
   const response = await fetch(url, {
     method: 'POST',
@@ -205,6 +274,14 @@ serve(async (req) => {
       return await handleIVRResponse(req, url);
     }
 
+    // ============================================================================
+    // FLOW C: Call status / answering machine callbacks (Twilio webhook)
+    // ============================================================================
+    if (flow === 'status' || flow === 'amd') {
+      console.log('📞 Routing to: handleCallStatus');
+      return await handleCallStatus(req, url);
+    }
+
     // ============================================================================
     // FLOW A: Initial Call - Start IVR (default)
     // ============================================================================
@@ -243,12 +320,27 @@ serve(async (req) => {
  * FLOW A: Initial Call
  * Creates the outbound call with IVR prompt using zero-dependency approach
  * Supports batched medications (multiple meds in one call)
+ *
+ * The batch is stored in a call_sessions row first; the Gather callback
+ * only carries the session's random token.
  */
 async function handleInitialCall(req: Request): Promise<Response> {
   try {
     console.log('🎯 handleInitialCall: Starting...');
+
+    // Only the scheduler may place calls: the IVR marks doses taken
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+      console.warn('🛑 Rejected call request without the service role key');
+      return createErrorJSON('Unauthorized', 401);
+    }
+
     const body = await req.json() as CallRequestBody;
     
+    if (!body.userId) {
+      return createErrorJSON('userId is required');
+    }
+
     // Normalize to batch format (supports both new and legacy formats)
     const { medications, userName, phoneNumber } = normalizeToBatch(body);
     
@@ -274,13 +366,13 @@ async function handleInitialCall(req: Request): Promise<Response> {
       throw new Error('SUPABASE_URL environment variable not set');
     }
 
-    // Extract IDs for batch update
-    const medicationIds = medications.map(m => m.id).filter(id => id);
-    const logIds = medications.map(m => m.logId).filter((id): id is string => !!id);
-    const medicationNames = medications.map(m => m.name);
+    const supabase = createServiceClient();
+
+    // Spoken as "Prednisone 30 milligrams" so tapering patients hear today's dose
+    const spokenMedications = medications.map(m => m.dosage ? `${m.name} ${m.dosage}` : m.name);
     
     // CRITICAL: Escape medication names for XML safety FIRST
-    const safeMedicationNames = medicationNames.map(n => escapeXML(n));
+    const safeMedicationNames = spokenMedications.map(n => escapeXML(n));
     
     // Create natural spoken list from safe names
     const spokenList = createSpokenList(safeMedicationNames);
@@ -290,24 +382,21 @@ async function handleInitialCall(req: Request): Promise<Response> {
     const isBatch = medications.length > 1;
     const themOrIt = isBatch ? 'all of them' : 'it';
     const batchLabel = isBatch ? 'your medications: ' : '';
+
+    // Low-supply reminder (flagged by schedule-batches)
+    const refillNote = createRefillNote(medications);
     
     console.log('🔒 Sanitized values for TwiML:', { safeName, spokenList, isBatch, medicationCount: medications.length });
-    console.log('🔒 Medication IDs for callback:', medicationIds);
 
-    // Build callback URL with batched IDs (comma-separated)
-    const callbackUrl = `${origin}/functions/v1/make-call?flow=process_response` +
-      `&medicationIds=${encodeURIComponent(medicationIds.join(','))}` +
-      `&logIds=${encodeURIComponent(logIds.join(','))}` +
-      `&userName=${encodeURIComponent(userName)}` +
-      `&medicationNames=${encodeURIComponent(medicationNames.join(','))}` +
-      `&count=${medications.length}`;
+    // Session holds the batch; the callback URL carries only its token
+    const session = await createCallSession(supabase, body.userId, userName, medications);
+    const callbackUrl = `${origin}/functions/v1/make-call?flow=process_response&session=${session.token}`;
 
     // CRITICAL: Escape ampersands for valid XML
     const xmlSafeCallbackUrl = callbackUrl.replace(/&/g, '&amp;');
 
-    // Debug: Verify the URL is public
     console.log('🔗 Origin:', origin);
-    console.log('🔗 Generated callback URL:', callbackUrl);
+    console.log(`🔗 Call session ${session.id} (attempt ${session.attempt})`);
 
     console.log('🎯 Generating TwiML for batched IVR');
     // Generate TwiML with IVR (personalized with medication names)
@@ -316,7 +405,7 @@ async function handleInitialCall(req: Request): Promise<Response> {
   <Pause length="1"/>
   <Gather input="speech dtmf" timeout="5" numDigits="1" action="${xmlSafeCallbackUrl}" method="POST" speechTimeout="auto">
     <Say voice="alice">
-      Hello ${safeName}. It is time to take ${batchLabel}${spokenList}. Did you take ${themOrIt}? Press 1 for Yes, or Press 2 for No.
+      Hello ${safeName}. It is time to take ${batchLabel}${spokenList}. ${refillNote}Did you take ${themOrIt}? Press 1 for Yes, or Press 2 for No.
     </Say>
   </Gather>
   <Say voice="alice">No response received. Please take your medications soon. Goodbye.</Say>
@@ -327,12 +416,36 @@ async function handleInitialCall(req: Request): Promise<Response> {
 
     // Make call via Twilio REST API (zero dependencies!)
     console.log('📞 Calling Twilio API to create call...');
-    const call = await createTwilioCall(accountSid, authToken, {
-      to: phoneNumber,
-      from: fromNumber,
-      twiml: twiml,
-      timeLimit: 120, // 2 minutes max
-    });
+    let call: { sid: string };
+    try {
+      call = await createTwilioCall(accountSid, authToken, {
+        to: phoneNumber,
+        from: fromNumber,
+        twiml: twiml,
+        timeLimit: 120, // 2 minutes max
+        statusCallback: `${origin}/functions/v1/make-call?flow=status&session=${session.token}`,
+        amdCallback: `${origin}/functions/v1/make-call?flow=amd&session=${session.token}`,
+      });
+    } catch (error) {
+      const detail = (error as Error).message;
+      await updateCallSession(supabase, session.id, { state: 'failed', response: detail });
+      await recordUnplacedCall(supabase, session, detail);
+      throw error;
+    }
+
+    await updateCallSession(supabase, session.id, { call_sid: call.sid });
+
+    // A status callback may already have created the row; don't reset it
+    const { error: attemptError } = await supabase
+      .from('call_attempts')
+      .upsert(
+        { session_id: session.id, user_id: session.user_id, call_sid: call.sid, status: 'queued' },
+        { onConflict: 'call_sid', ignoreDuplicates: true }
+      );
+
+    if (attemptError) {
+      console.error('❌ Failed to record call attempt:', attemptError.message);
+    }
 
     console.log(`✅ IVR Call created successfully: ${call.sid}`);
     console.log('✅ Returning success response to app');
@@ -360,23 +473,46 @@ async function handleInitialCall(req: Request): Promise<Response> {
  * FLOW B: Process IVR Response
  * Handles the Twilio webhook callback with user's response
  * Supports batched medication updates
+ *
+ * Everything about the call comes from its call_sessions row (looked up by
+ * the ?session= token), never from the URL.
  */
 async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
   try {
     console.log('🎯 handleIVRResponse: Starting...');
-    
-    // Get context from query params (batch format)
-    const medicationIdsStr = url.searchParams.get('medicationIds') || '';
-    const logIdsStr = url.searchParams.get('logIds') || '';
-    const medicationNamesStr = url.searchParams.get('medicationNames') || '';
-    const countStr = url.searchParams.get('count') || '1';
-    const userName = escapeXML(url.searchParams.get('userName') || 'there');
-    
-    // Parse comma-separated IDs into arrays
-    const medicationIds = medicationIdsStr ? medicationIdsStr.split(',').filter(id => id) : [];
-    const logIds = logIdsStr ? logIdsStr.split(',').filter(id => id) : [];
-    const medicationNames = medicationNamesStr ? medicationNamesStr.split(',') : [];
-    const count = parseInt(countStr, 10) || 1;
+
+    // Parse form data from Twilio webhook (read once: it is also what Twilio signed)
+    const params = formDataToParams(await req.formData());
+
+    // ============================================================================
+    // SECURITY: Only Twilio may report a key press
+    // Anyone who knows this URL could otherwise mark arbitrary doses as taken.
+    // Rejected with TwiML (HTTP 200) so a misconfigured genuine call still
+    // ends politely instead of announcing "Application Error".
+    // ============================================================================
+    if (!(await isValidTwilioRequest(req, getPublicFunctionUrl('make-call', url), params))) {
+      console.error('🛑 Rejected IVR response with an invalid Twilio signature - no DB update');
+      return createErrorTwiML('Sorry, we could not verify this call. Please open the app to record your medications. Goodbye.');
+    }
+
+    const supabase = createServiceClient();
+    const session = await loadCallSession(supabase, url.searchParams.get('session') || '');
+
+    if (!session) {
+      return createErrorTwiML('Sorry, this call has expired. Please open the app to record your medications. Goodbye.');
+    }
+
+    // A session answers once; a replayed callback changes nothing
+    if (session.state !== 'calling') {
+      console.warn(`⚠️ Session ${session.id} already ${session.state} - ignoring callback`);
+      return createErrorTwiML('Your answer has already been recorded. Goodbye.');
+    }
+
+    const medicationIds = session.schedule_ids;
+    const logIds = session.log_ids;
+    const medicationNames = session.medication_names;
+    const count = medicationNames.length || 1;
+    const userName = escapeXML(session.user_name || 'there');
     
     // Create spoken list for response
     const spokenList = createSpokenList(medicationNames.map(n => escapeXML(n)));
@@ -384,21 +520,20 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
     const themOrIt = isBatch ? 'all of them' : 'it';
     const yourMeds = isBatch ? 'your medications' : spokenList;
 
-    console.log('🔍 Extracted from URL query params:', { 
+    console.log('🔍 Loaded call session:', { 
+      sessionId: session.id,
       medicationIds,
       logIds,
-      medicationNames,
       count,
-      userName,
+      attempt: session.attempt,
       isBatch
     });
 
-    // Parse form data from Twilio webhook
-    const formData = await req.formData();
-    const speechResult = formData.get('SpeechResult')?.toString().toLowerCase() || '';
-    const digits = formData.get('Digits')?.toString() || '';
+    const speechResult = (params.SpeechResult || '').toLowerCase();
+    const digits = params.Digits || '';
+    const response = digits || speechResult || null;
 
-    console.log('📞 IVR Response received:', { speechResult, digits, medicationIds, logIds });
+    console.log('📞 IVR Response received:', { speechResult, digits, sessionId: session.id });
 
     // Log user input for debugging
     console.log('📞 User pressed:', digits || '(none)');
@@ -417,19 +552,20 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
       // User confirmed they took medication(s)
       console.log('✅ User pressed 1 (Yes). Updating DB to mark medications as taken.');
       console.log('✅ Medication IDs to update:', medicationIds);
-      console.log('✅ Medication names:', medicationNames);
+
+      // Claim the answer before touching doses (two racing callbacks update once)
+      if (!(await finishCallSession(supabase, session.id, 'confirmed', response))) {
+        return createErrorTwiML('Your answer has already been recorded. Goodbye.');
+      }
 
       // Update database if we have IDs
       if (medicationIds.length > 0) {
         console.log(`💾 Triggering batch database update for ${medicationIds.length} medications`);
-        console.log('💾 IDs being sent to update function:', medicationIds);
-        await updateMedicationStatusBatch(medicationIds, logIds, 'taken');
+        await updateDoseStatusBatch(medicationIds, logIds, 'taken', 'ivr');
         console.log('💾 Update function completed');
       } else {
-        console.error('❌ CRITICAL: Cannot update database - no medication IDs available!');
+        console.error('❌ CRITICAL: Cannot update database - session has no medication IDs!');
         console.error('❌ This means medications will NOT be marked as taken');
-        console.error('❌ medicationIds:', medicationIds);
-        console.error('❌ logIds:', logIds);
       }
 
       const markedMessage = isBatch 
@@ -451,6 +587,7 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
       // User said they haven't taken it - keep medications as pending
       console.log('⚠️ User pressed 2 (No). Keeping medications as pending.');
       console.log('⚠️ NO database update performed - medications remain untaken.');
+      await finishCallSession(supabase, session.id, 'declined', response);
 
       responseTwiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -464,14 +601,11 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
     // CASE 3: Invalid input - Retry or give up
     // ============================================================================
     } else {
-      // Unclear response - ask again (one retry)
-      const retryAttempt = url.searchParams.get('retry');
-      const origin = Deno.env.get('SUPABASE_URL') || '';
-      console.log('🔗 Retry origin:', origin);
-      
-      if (retryAttempt === '1') {
+      // Unclear response - ask again (one retry, counted on the session)
+      if (session.gather_attempts >= 1) {
         // Already retried once, give up with "invalid input" message
         console.log('❌ Invalid input after retry. Giving up.');
+        await finishCallSession(supabase, session.id, 'no_input', response);
         responseTwiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Say voice="alice">
@@ -480,18 +614,14 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
   <Hangup/>
 </Response>`;
       } else {
-        // Retry once - use public URL with all batch params
-        const retryUrl = `${origin}/functions/v1/make-call?flow=process_response` +
-          `&medicationIds=${encodeURIComponent(medicationIds.join(','))}` +
-          `&logIds=${encodeURIComponent(logIds.join(','))}` +
-          `&userName=${encodeURIComponent(userName)}` +
-          `&medicationNames=${encodeURIComponent(medicationNames.join(','))}` +
-          `&count=${count}&retry=1`;
+        await updateCallSession(supabase, session.id, { gather_attempts: session.gather_attempts + 1 });
+
+        // Retry once - same session token, public URL
+        const origin = Deno.env.get('SUPABASE_URL') || '';
+        const retryUrl = `${origin}/functions/v1/make-call?flow=process_response&session=${session.token}`;
         
         // CRITICAL: Escape ampersands for valid XML
         const xmlSafeRetryUrl = retryUrl.replace(/&/g, '&amp;');
-        
-        console.log('🔗 Generated retry URL:', retryUrl);
 
         responseTwiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -529,63 +659,338 @@ async function handleIVRResponse(req: Request, url: URL): Promise<Response> {
 }
 
 /**
- * Update medication status in database (BATCH version)
- * 
- * Uses .in() to update multiple records at once
- * Schema: medications table has 'is_taken' (boolean) column
- * 
- * IMPORTANT: Only medications table exists (no separate logs table)
+ * FLOW C: Call status and answering machine detection callbacks
+ * Records each lifecycle event on the call's call_attempts row, and gives
+ * the strike back when a scheduler call ends without reaching the phone.
  */
-async function updateMedicationStatusBatch(
-  medicationIds: string[], 
-  logIds: string[], 
-  status: string
-): Promise<void> {
-  try {
-    console.log('💾 Attempting batch DB update:', { medicationIds, logIds, status });
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL');
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+async function handleCallStatus(req: Request, url: URL): Promise<Response> {
+  const params = formDataToParams(await req.formData());
+
+  if (!(await isValidTwilioRequest(req, getPublicFunctionUrl('make-call', url), params))) {
+    console.error('🛑 Rejected call status callback with an invalid Twilio signature');
+    return createEmptyTwiML();
+  }
+
+  const supabase = createServiceClient();
+  const session = await loadCallSession(supabase, url.searchParams.get('session') || '', { includeExpired: true });
+  const callSid = params.CallSid;
+
+  if (!session || !callSid) {
+    return createEmptyTwiML();
+  }
+
+  const { data: existing, error: loadError } = await supabase
+    .from('call_attempts')
+    .select('id, status')
+    .eq('call_sid', callSid)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to load call attempt: ${loadError.message}`);
+  }
+
+  const nowISO = new Date().toISOString();
+  const changes: Record<string, unknown> = { updated_at: nowISO };
 
-    if (!supabaseUrl || !supabaseServiceKey) {
-      console.warn('⚠️ Missing Supabase credentials for DB update');
-      return;
+  if (url.searchParams.get('flow') === 'amd') {
+    changes.answered_by = params.AnsweredBy || 'unknown';
+    console.log(`🤖 ${callSid} answered by: ${changes.answered_by}`);
+  } else {
+    const status = params.CallStatus || '';
+    const isFinal = FINAL_CALL_STATUSES.includes(status);
+
+    // Callbacks can arrive out of order: never change a finished call's status
+    if (status && (!existing || !FINAL_CALL_STATUSES.includes(existing.status))) {
+      changes.status = status;
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // CRITICAL: Only medications table exists (no medication_logs table)
-    // Update medications table with ALL IDs in the batch
-    if (medicationIds.length > 0) {
-      console.log(`💾 Batch updating ${medicationIds.length} medications to is_taken=true...`);
-      console.log('💾 Medication IDs being updated:', medicationIds);
-      
-      // Update all medications in one query using .in()
-      const { error, count } = await supabase
-        .from('medications')
-        .update({ is_taken: true })
-        .in('id', medicationIds);
-
-      if (error) {
-        console.error('❌ Failed to batch update medications:', {
-          error: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code,
-          medicationIds: medicationIds
-        });
-      } else {
-        console.log(`✅ SUCCESS: ${count || medicationIds.length} medications marked as taken`);
-        console.log('✅ Updated medication IDs:', medicationIds);
-      }
-    } else {
-      console.warn('⚠️ No medication IDs provided for database update');
-      console.warn('⚠️ This means medications will NOT be marked as taken!');
+    if (status === 'initiated') changes.initiated_at = nowISO;
+    if (status === 'ringing') changes.ringing_at = nowISO;
+    if (status === 'in-progress') changes.answered_at = nowISO;
+    if (isFinal) {
+      changes.ended_at = nowISO;
+      if (params.CallDuration) changes.duration_seconds = parseInt(params.CallDuration, 10) || 0;
+      if (params.SipResponseCode) changes.detail = `SIP ${params.SipResponseCode}`;
     }
-  } catch (error) {
-    console.error('❌ Database batch update exception:', {
-      error: (error as Error).message,
-      stack: (error as Error).stack
+
+    console.log(`📶 ${callSid}: ${status}${params.CallDuration ? ` (${params.CallDuration}s)` : ''}`);
+  }
+
+  const { error } = existing
+    ? await supabase.from('call_attempts').update(changes).eq('id', existing.id)
+    : await supabase.from('call_attempts').insert({
+      session_id: session.id,
+      user_id: session.user_id,
+      call_sid: callSid,
+      ...changes,
     });
+
+  if (error) {
+    console.error(`❌ Failed to record call status for ${callSid}:`, error.message);
+    return createEmptyTwiML();
+  }
+
+  if (NOT_CONNECTED_STATUSES.includes(changes.status as string)) {
+    await refundStrike(supabase, session, { callSid });
+  }
+
+  return createEmptyTwiML();
+}
+
+/**
+ * Empty TwiML (acknowledges a status callback)
+ */
+function createEmptyTwiML(): Response {
+  return new Response('<?xml version="1.0" encoding="UTF-8"?>\n<Response/>', {
+    headers: { 'Content-Type': 'application/xml' },
+    status: 200,
+  });
+}
+
+// ============================================================================
+// CALL SESSIONS
+// ============================================================================
+
+/**
+ * Service-role Supabase client (throws if not configured)
+ */
+function createServiceClient(): ReturnType<typeof createClient> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase credentials');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Random URL-safe token for a session (192 bits)
+ */
+function createSessionToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Store the batch for a call before it is placed
+ * Every schedule and dose event in the batch must belong to userId, so a
+ * session can only ever confirm the called patient's own doses.
+ * attempt is the doses' retry_count, which schedule-batches increments
+ * before every call.
+ */
+async function createCallSession(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  userName: string,
+  medications: MedicationItem[]
+): Promise<CallSessionRow> {
+  const scheduleIds = [...new Set(medications.map(m => m.id).filter(id => id))];
+  const logIds = [...new Set(medications.map(m => m.logId).filter((id): id is string => !!id))];
+
+  let attempt = 1;
+  if (scheduleIds.length > 0) {
+    const { data, error } = await supabase
+      .from('medication_schedules')
+      .select('id, retry_count')
+      .eq('user_id', userId)
+      .in('id', scheduleIds);
+
+    if (error) {
+      throw new Error(`Failed to load schedules for session: ${error.message}`);
+    }
+    if ((data || []).length !== scheduleIds.length) {
+      throw new Error('Medications do not belong to this user');
+    }
+    attempt = Math.max(1, ...(data || []).map(row => row.retry_count || 0));
+  }
+
+  if (logIds.length > 0) {
+    const { data, error } = await supabase
+      .from('dose_events')
+      .select('id')
+      .eq('user_id', userId)
+      .in('id', logIds);
+
+    if (error) {
+      throw new Error(`Failed to load dose events for session: ${error.message}`);
+    }
+    if ((data || []).length !== logIds.length) {
+      throw new Error('Dose events do not belong to this user');
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('call_sessions')
+    .insert({
+      token: createSessionToken(),
+      user_id: userId,
+      user_name: userName,
+      schedule_ids: scheduleIds,
+      log_ids: logIds,
+      medication_names: medications.map(m => m.name),
+      attempt,
+    })
+    .select()
+    .single();
+
+  // No session = the callback couldn't find the batch, so don't call
+  if (error || !data) {
+    throw new Error(`Failed to create call session: ${error?.message}`);
+  }
+
+  return data as CallSessionRow;
+}
+
+/**
+ * Load a session by its callback token (unexpired only, unless includeExpired)
+ */
+async function loadCallSession(
+  supabase: ReturnType<typeof createClient>,
+  token: string,
+  options: { includeExpired?: boolean } = {}
+): Promise<CallSessionRow | null> {
+  if (!token) {
+    console.warn('⚠️ Twilio callback without a session token');
+    return null;
+  }
+
+  let query = supabase
+    .from('call_sessions')
+    .select('*')
+    .eq('token', token);
+
+  // Status callbacks may trail a long call; answers must come while it's live
+  if (!options.includeExpired) {
+    query = query.gt('expires_at', new Date().toISOString());
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load call session: ${error.message}`);
+  }
+
+  if (!data) {
+    console.warn('⚠️ Unknown or expired call session token');
+  }
+
+  return data as CallSessionRow | null;
+}
+
+/**
+ * Update a session (failures are logged; the call carries on)
+ */
+async function updateCallSession(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string,
+  changes: Partial<Pick<CallSessionRow, 'state' | 'response' | 'call_sid' | 'gather_attempts'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('call_sessions')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error(`❌ Failed to update call session ${sessionId}:`, error.message);
+  }
+}
+
+/**
+ * Record the final answer, only if the session is still calling
+ * Returns false when another callback already answered it
+ */
+async function finishCallSession(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string,
+  state: 'confirmed' | 'declined' | 'no_input',
+  response: string | null
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('call_sessions')
+    .update({ state, response, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('state', 'calling')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to record call answer: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Record a call Twilio refused to create, and give its strike back
+ */
+async function recordUnplacedCall(
+  supabase: ReturnType<typeof createClient>,
+  session: CallSessionRow,
+  detail: string
+): Promise<void> {
+  const nowISO = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('call_attempts')
+    .insert({
+      session_id: session.id,
+      user_id: session.user_id,
+      status: 'failed',
+      detail,
+      ended_at: nowISO,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('❌ Failed to record unplaced call:', error?.message);
+    return;
+  }
+
+  await refundStrike(supabase, session, { attemptId: data.id });
+}
+
+/**
+ * Give back the 2-strike retry of a call that never reached the phone
+ *
+ * Sessions only come from authenticated scheduler requests whose schedules
+ * were checked against the patient (createCallSession), and the refund is
+ * limited to that patient's schedules again. The attempt's strike_refunded
+ * flag is claimed first, so a repeated callback refunds once.
+ */
+async function refundStrike(
+  supabase: ReturnType<typeof createClient>,
+  session: CallSessionRow,
+  attempt: { callSid?: string; attemptId?: string }
+): Promise<void> {
+  if (session.schedule_ids.length === 0) return;
+
+  let claim = supabase
+    .from('call_attempts')
+    .update({ strike_refunded: true, updated_at: new Date().toISOString() })
+    .eq('strike_refunded', false);
+  claim = attempt.attemptId ? claim.eq('id', attempt.attemptId) : claim.eq('call_sid', attempt.callSid);
+
+  const { data: claimed, error: claimError } = await claim.select('id');
+
+  if (claimError) {
+    console.error('❌ Failed to claim strike refund:', claimError.message);
+    return;
+  }
+  if (!claimed || claimed.length === 0) return;
+
+  const { data: refunded, error } = await supabase.rpc('refund_call_strike', {
+    p_user_id: session.user_id,
+    p_schedule_ids: session.schedule_ids,
+    p_max_refunds: MAX_FAILED_DIAL_REFUNDS,
+  });
+
+  if (error) {
+    console.error('❌ Failed to refund strike:', error.message);
+  } else {
+    console.log(`↩️ Call never connected - strike given back for ${refunded} doses`);
   }
 }
@@ -6,12 +6,32 @@
  * This function runs periodically (e.g., every minute) to:
  * 1. Find anchor medications due RIGHT NOW (within last 1 minute)
  * 2. For each anchor user, sweep all pending medications in next 30 minutes
- * 3. Trigger batched calls via the make-call function
+ * 3. Trigger batched calls via the make-call function, or batched texts via
+ *    send-sms for users who chose SMS reminders (profiles.reminder_channel)
+ *
+ * Users with an escalation policy (profiles.escalation_policy) skip steps
+ * 1-3 and run their own ladder instead: local alarm, calls and caregiver SMS
+ * at fixed offsets after the dose time, each outcome recorded in
+ * dose_escalations (see processEscalations and _shared/escalation.ts).
+ *
+ * Doses still not taken after the 2-strike calls are reported once to the
+ * patient's linked caregivers by push, SMS or voice call, whichever each
+ * caregiver chose (see alertCaregiversForMissedDoses and
+ * _shared/caregiverAlerts.ts).
  * 
  * Database Schema:
- * - Table: medications (single table)
- * - Status: is_taken (boolean) - false = pending
- * - Time: time (text "HH:MM") - 24-hour format
+ * - Table: medications (name, dosage) - one row per medicine
+ * - Table: medication_schedules - one row per dose time (queried with its medication)
+ *   - Status: is_taken (boolean) - false = pending
+ *   - Time: time (text "HH:MM") - 24-hour format
+ * - Table: dose_events (one row per medication per dose day)
+ *   - Each batched medication gets a pending event; its id is sent to
+ *     make-call as logId so the IVR can mark that exact dose as taken
+ * 
+ * Timezones:
+ * - Each user's IANA timezone comes from profiles.timezone (default Asia/Karachi)
+ * - "Now" is converted to each user's local HH:MM, including the midnight
+ *   crossover of the sweep window and DST transitions (see _shared/timezone.ts)
  * 
  * Cron Setup: Use Supabase pg_cron or external scheduler to call this function
  * Recommended: Every 1 minute for precise timing
@@ -21,6 +41,36 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isDoseDay, isWithinCourse, type RecurrenceRule } from "../_shared/recurrence.ts";
+import { getDaysOfSupply } from "../_shared/inventory.ts";
+import {
+  formatDosageForSpeech,
+  toDosage,
+  type Dosage,
+  type DosageForm,
+  type DosageUnit,
+} from "../_shared/dosage.ts";
+import { alertCaregivers, type MissedDose } from "../_shared/caregiverAlerts.ts";
+import {
+  getDueSteps,
+  loadEscalationProfiles,
+  type EscalationChannel,
+  type EscalationProfile,
+  type EscalationStatus,
+} from "../_shared/escalation.ts";
+import { sendSms } from "../_shared/sms.ts";
+import { getUserSnoozeMinutes, isSnoozedAt, loadUserSnoozeMinutes } from "../_shared/snooze.ts";
+import { getDosageForDate, type TaperPlan } from "../_shared/taper.ts";
+import {
+  DEFAULT_TIMEZONE,
+  getDoseDate,
+  getDoseInstant,
+  getLocalTime,
+  getLocalTimesInWindow,
+  getUserTimezone,
+  isTimeInWindow,
+  loadUserTimezones,
+} from "../_shared/timezone.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,34 +80,92 @@ const corsHeaders = {
 // Configuration
 const ANCHOR_WINDOW_MINUTES = 1; // How far back to look for anchor meds (triggers)
 const SWEEP_WINDOW_MINUTES = 30; // How far ahead to sweep for upcoming meds
-const SNOOZE_COOLDOWN_MINUTES = 15; // Minimum gap between calls for same medication
 const MAX_RETRY_COUNT = 2; // Maximum number of call attempts per medication per day (2-Strike Rule)
+const RESET_HOUR = 3; // Dose day boundary (matches RESET_HOUR in constants/time.ts)
+
+// Columns for every schedule query: the schedule plus its parent medication
+const SCHEDULE_COLUMNS = 'id, medication_id, time, recurrence, user_id, is_taken, last_called_at, retry_count, snoozed_until, ' +
+  'medications(name, dosage, dosage_amount, dosage_unit, dosage_form, start_date, end_date, taper_plan, archived_at, ' +
+  'inventory_count, units_per_dose, refill_threshold_days, refill_in_call, refill_call_mentioned_at)';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+/**
+ * A scheduled dose flattened with its medication's name/dosage
+ * id is medication_schedules.id; all call state is per schedule
+ */
 interface Medication {
   id: string;
+  medication_id: string;
   name: string;
-  dosage: string;
+  dosage: Dosage | null;          // Structured dosage, null for unparsed legacy text
+  dosage_text: string;            // Display text (medications.dosage)
   time: string;       // "HH:MM" format
+  recurrence: RecurrenceRule | null;
+  start_date: string | null;      // Course window (medications), inclusive dose days
+  end_date: string | null;
+  taper_plan: TaperPlan | null;   // Date-dependent dosage (medications)
+  archived: boolean;              // Course finished (medications.archived_at set)
+  inventory_count: number | null; // Units on hand (medications), null = not tracked
+  units_per_dose: number;
+  refill_threshold_days: number;
+  refill_in_call: boolean;        // Mention low supply in the next call
+  refill_call_mentioned_at: string | null;
   user_id: string;
   is_taken: boolean;
   last_called_at: string | null;  // ISO timestamp of last call
   retry_count: number;            // Number of call attempts (0, 1, or 2)
+  snoozed_until: string | null;   // Next call time for a snoozed dose (app Snooze or after a call)
+}
+
+interface ScheduleRow {
+  id: string;
+  medication_id: string;
+  time: string;
+  recurrence: RecurrenceRule | null;
+  user_id: string;
+  is_taken: boolean;
+  last_called_at: string | null;
+  retry_count: number;
+  snoozed_until: string | null;
+  medications: {
+    name: string;
+    dosage: string;
+    dosage_amount: number | null;
+    dosage_unit: DosageUnit | null;
+    dosage_form: DosageForm | null;
+    start_date: string | null;
+    end_date: string | null;
+    taper_plan: TaperPlan | null;
+    archived_at: string | null;
+    inventory_count: number | null;
+    units_per_dose: number;
+    refill_threshold_days: number;
+    refill_in_call: boolean;
+    refill_call_mentioned_at: string | null;
+  } | null;
 }
 
+type ReminderChannel = 'call' | 'sms';
+
 interface UserProfile {
   id: string;
   phone: string;
   name: string;
+  channel: ReminderChannel; // profiles.reminder_channel
 }
 
 interface MedicationItem {
-  id: string;       // medication_id for DB update
+  id: string;       // medication_schedules.id for DB update
   name: string;
-  logId: string;    // Empty string for medications table (no separate logs)
+  dosage: string;   // Spoken dosage in effect today (taper plans resolved)
+  logId: string;    // dose_events.id for this dose day
+  refill?: {        // Set when supply is low and the call should mention it
+    medicationId: string;
+    daysLeft: number;
+  };
 }
 
 interface UserBatch {
@@ -67,11 +175,38 @@ interface UserBatch {
   medications: MedicationItem[];
 }
 
+/**
+ * An escalation step claimed for a dose (its dose_escalations row is inserted
+ * as pending) and waiting to be run
+ */
+interface EscalationClaim {
+  rowId: string;            // dose_escalations.id
+  channel: EscalationChannel;
+  med: Medication;
+  doseDate: string;
+  logId: string;            // dose_events.id for this dose day
+}
+
+interface EscalationResult {
+  steps_run: number;
+  steps_cancelled: number;
+  errors: string[];
+}
+
+interface CaregiverAlertResult {
+  patients_alerted: number;
+  alerts_sent: number;
+  alerts_failed: number;
+  errors: string[];
+}
+
 interface ScheduleResult {
   success: boolean;
   batches_triggered: number;
   total_meds: number;
   errors: string[];
+  escalation: EscalationResult;
+  caregiver_alerts: CaregiverAlertResult;
   details: {
     userId: string;
     medicationCount: number;
@@ -148,8 +283,37 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
     sweepEnd: sweepEnd.toISOString()
   });
 
+  // Load every user's timezone once; users without a profile use DEFAULT_TIMEZONE
+  const userTimezones = await loadUserTimezones(supabase);
+  console.log(`🌍 Loaded timezones for ${userTimezones.size} users (default ${DEFAULT_TIMEZONE})`);
+
+  // STEP 0: Escalation ladders (users with an escalation policy skip the 2-strike flow below)
+  const escalationProfiles = await loadEscalationProfiles(supabase);
+  const escalation = await processEscalations(
+    supabase,
+    supabaseUrl,
+    supabaseServiceKey,
+    userTimezones,
+    escalationProfiles,
+    now
+  );
+
+  // Doses past the 2-strike limit: tell the patient's caregivers (once per dose)
+  const caregiverAlerts = await alertCaregiversForMissedDoses(
+    supabase,
+    userTimezones,
+    new Set(escalationProfiles.keys()),
+    now
+  );
+
   // STEP 1: Find Anchor Medications (due RIGHT NOW)
-  const anchorResult = await findAnchorMedications(supabase, anchorStart, now);
+  const anchorResult = await findAnchorMedications(
+    supabase,
+    userTimezones,
+    new Set(escalationProfiles.keys()),
+    anchorStart,
+    now
+  );
 
   if (!anchorResult || anchorResult.anchorUserIds.size === 0) {
     console.log('📭 No anchor medications found (nothing due right now)');
@@ -158,6 +322,8 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
       batches_triggered: 0,
       total_meds: 0,
       errors: [],
+      escalation,
+      caregiver_alerts: caregiverAlerts,
       details: []
     };
   }
@@ -167,6 +333,7 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
   // STEP 2: Sweep for each anchor user (find ALL their pending meds)
   const { userBatches, userIds } = await sweepUserMedications(
     supabase,
+    userTimezones,
     anchorResult.anchorUserIds,
     anchorStart,
     sweepEnd
@@ -179,6 +346,8 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
       batches_triggered: 0,
       total_meds: 0,
       errors: [],
+      escalation,
+      caregiver_alerts: caregiverAlerts,
       details: []
     };
   }
@@ -191,39 +360,32 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
   
   // Try to get user data from auth.users (requires service role)
   const userProfiles = new Map<string, UserProfile>();
+  const reminderChannels = await loadReminderChannels(supabase, [...userIds]);
   
   for (const userId of userIds) {
-    try {
-      // Get user from auth.users
-      const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
-      
-      if (userError || !user) {
-        console.warn(`⚠️ Could not fetch user ${userId}:`, userError?.message);
-        continue;
-      }
-
-      const phone = user.phone || user.user_metadata?.phone;
-      const name = user.user_metadata?.name || user.email?.split('@')[0] || 'User';
+    const user = await fetchUserContact(supabase, userId);
+    if (!user) continue;
 
-      if (!phone) {
-        console.warn(`⚠️ User ${userId} has no phone number`);
-        continue;
-      }
-
-      userProfiles.set(userId, {
-        id: userId,
-        phone: sanitizePhoneNumber(phone),
-        name: name,
-      });
-    } catch (err) {
-      console.error(`❌ Error fetching user ${userId}:`, err);
+    if (!user.phone) {
+      console.warn(`⚠️ User ${userId} has no phone number`);
+      continue;
     }
+
+    userProfiles.set(userId, {
+      id: userId,
+      phone: user.phone,
+      name: user.name,
+      channel: reminderChannels.get(userId) ?? 'call',
+    });
   }
 
   console.log(`📱 Retrieved ${userProfiles.size} user profiles with phone numbers`);
 
+  // Snooze length per user, applied to the batch after its call
+  const userSnoozeMinutes = await loadUserSnoozeMinutes(supabase, [...userIds]);
+
   // ============================================================================
-  // STEP 4: Trigger make-call for each user batch (PARALLEL EXECUTION)
+  // STEP 4: Trigger make-call (or send-sms) for each user batch (PARALLEL EXECUTION)
   // ============================================================================
   
   const result: ScheduleResult = {
@@ -231,6 +393,8 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
     batches_triggered: 0,
     total_meds: 0,
     errors: [],
+    escalation,
+    caregiver_alerts: caregiverAlerts,
     details: []
   };
 
@@ -257,15 +421,21 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
       // ============================================================================
       // CRITICAL: Update medication stats BEFORE triggering call (2-Strike Rule)
       // This:
-      // 1. Sets last_called_at to prevent duplicate calls for batched meds
+      // 1. Snoozes the batched meds (snoozed_until) to prevent duplicate calls
       // 2. Increments retry_count (after 2 calls, no more retries)
-      // Example: 8:00 batch (A+B) -> sets last_called_at + retry_count=1 for both
-      //          8:05 trigger for B -> sees last_called_at=8:00 (5 mins ago) -> SKIPPED
-      //          8:15 retry -> sees retry_count=1 < 2 -> CALL, retry_count becomes 2
-      //          8:30 retry -> sees retry_count=2 >= 2 -> SKIPPED (2-Strike Rule)
+      // Example (10 min snooze): 8:00 batch (A+B) -> snoozed_until=8:10 + retry_count=1 for both
+      //          8:05 trigger for B -> retry_count=1, not a first call -> SKIPPED
+      //          8:10 retry -> snooze expired, retry_count=1 < 2 -> CALL, retry_count becomes 2
+      //          8:20 retry -> sees retry_count=2 >= 2 -> SKIPPED (2-Strike Rule)
+      // A call that never reaches the phone (failed / canceled) gives its strike
+      // back via make-call's status callback, so only real outcomes count.
       // ============================================================================
       const medicationIds = medications.map(m => m.id).filter(id => id);
-      const updateSuccess = await updateMedicationStats(supabase, medicationIds);
+      const updateSuccess = await updateMedicationStats(
+        supabase,
+        medicationIds,
+        getUserSnoozeMinutes(userSnoozeMinutes, userId)
+      );
 
       // ============================================================================
       // CIRCUIT BREAKER: No Database Update = No Twilio Call
@@ -286,15 +456,25 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
 
       console.log(`✅ Database stats updated successfully. Proceeding with call...`);
 
-      // Call make-call function (ONLY if DB update succeeded)
-      const callResult = await triggerMakeCall(supabaseUrl, supabaseServiceKey, {
-        phoneNumber: profile.phone,
-        userName: profile.name,
-        medications: medications,
-      });
+      // Call make-call, or text via send-sms (ONLY if DB update succeeded)
+      const callResult = profile.channel === 'sms'
+        ? await triggerSendSms(supabaseUrl, supabaseServiceKey, {
+          userId,
+          phoneNumber: profile.phone,
+          userName: profile.name,
+          doseDate: getDoseDate(now, getUserTimezone(userTimezones, userId), RESET_HOUR),
+          medications: medications,
+        })
+        : await triggerMakeCall(supabaseUrl, supabaseServiceKey, {
+          userId,
+          phoneNumber: profile.phone,
+          userName: profile.name,
+          medications: medications,
+        });
 
       if (callResult.success) {
-        console.log(`✅ Call triggered for user ${userId}`);
+        console.log(`✅ ${profile.channel === 'sms' ? 'SMS' : 'Call'} triggered for user ${userId}`);
+        await markRefillsMentioned(supabase, medications);
         return {
           userId,
           medicationCount: medications.length,
@@ -302,7 +482,7 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
           callSid: callResult.callSid
         };
       } else {
-        console.error(`❌ Call failed for user ${userId}:`, callResult.error);
+        console.error(`❌ ${profile.channel === 'sms' ? 'SMS' : 'Call'} failed for user ${userId}:`, callResult.error);
         return {
           userId,
           medicationCount: medications.length,
@@ -362,47 +542,62 @@ async function processScheduledMedications(): Promise<ScheduleResult> {
  * Find "anchor" medications that should trigger a call RIGHT NOW
  * 
  * Smart Snooze Logic:
- * 1. NEW MEDS: is_taken=false AND last_called_at IS NULL AND time=CurrentTime
- * 2. RETRY MEDS: is_taken=false AND last_called_at IS NOT NULL AND last_called_at < (NOW - 15 mins)
+ * 1. NEW MEDS: is_taken=false AND retry_count=0 AND time=CurrentTime AND not snoozed
+ * 2. SNOOZED MEDS: is_taken=false AND snoozed_until <= NOW (retry after a call,
+ *    or a dose the user snoozed in the app)
  * 
- * This prevents:
- * - Immediate re-calls if user said "No" (must wait 15 mins)
+ * snoozed_until is the user's chosen snooze length (5/10/15/30 min) after the
+ * last call or Snooze press. This prevents:
+ * - Immediate re-calls if user said "No" (must wait out the snooze)
  * - Duplicate calls for batched meds (8:00 + 8:05 batched, won't re-call at 8:05)
  * 
- * Uses Pakistan timezone for time comparison
+ * Time comparison is per user: each timezone in use gets its own list of local
+ * HH:MM values in the anchor window (including minutes skipped by DST), and a
+ * medication anchors only if its time is in its owner's list.
+ *
+ * First calls also require the schedule to be due on the owner's current dose
+ * day: recurrence rule (weekly, every N days, cyclic, monthly) and course
+ * start/end dates.
+ *
+ * Users with an escalation policy never anchor here (processEscalations runs
+ * their calls).
  */
 async function findAnchorMedications(
   supabase: ReturnType<typeof createClient>,
+  userTimezones: Map<string, string>,
+  escalationUserIds: Set<string>,
   anchorStart: Date,
   now: Date
 ): Promise<{ anchorUserIds: Set<string>; anchorCount: number } | null> {
   console.log('⚓ Finding anchor medications (with Smart Snooze)...');
   
   try {
-    // Get current time in HH:MM format (Pakistan timezone)
-    const nowTime = now.toLocaleTimeString('en-GB', {
-      timeZone: 'Asia/Karachi',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
+    // Local anchor times for every timezone in use
+    const anchorTimesByZone = new Map<string, Set<string>>();
+    for (const timeZone of new Set([DEFAULT_TIMEZONE, ...userTimezones.values()])) {
+      anchorTimesByZone.set(timeZone, new Set(getLocalTimesInWindow(anchorStart, now, timeZone)));
+    }
+    const allAnchorTimes = new Set<string>();
+    for (const times of anchorTimesByZone.values()) {
+      times.forEach(t => allAnchorTimes.add(t));
+    }
 
-    // Calculate cooldown threshold (15 minutes ago)
-    const cooldownThreshold = new Date(now.getTime() - SNOOZE_COOLDOWN_MINUTES * 60 * 1000);
-    const cooldownISO = cooldownThreshold.toISOString();
+    const nowISO = now.toISOString();
 
-    console.log(`⚓ Anchor time: ${nowTime}`);
-    console.log(`⚓ Cooldown threshold: ${cooldownISO} (${SNOOZE_COOLDOWN_MINUTES} mins ago)`);
+    for (const [timeZone, times] of anchorTimesByZone) {
+      console.log(`⚓ Anchor time (${timeZone}): ${[...times].join(', ')}`);
+    }
+    console.log(`⚓ Snooze expiry threshold: ${nowISO}`);
     console.log(`⚓ Max retry count: ${MAX_RETRY_COUNT} (2-Strike Rule)`);
 
     // ============================================================================
     // CONDITION 1: First Call (never called today, due now)
-    // is_taken=false AND retry_count=0 AND time=CurrentTime
+    // is_taken=false AND retry_count=0 AND time=owner's local CurrentTime
     // ============================================================================
-    const { data: newMeds, error: newMedsError } = await supabase
-      .from('medications')
-      .select('id, name, dosage, time, user_id, is_taken, last_called_at, retry_count')
-      .eq('time', nowTime)
+    const { data: candidateMeds, error: newMedsError } = await supabase
+      .from('medication_schedules')
+      .select(SCHEDULE_COLUMNS)
+      .in('time', [...allAnchorTimes])
       .eq('is_taken', false)
       .eq('retry_count', 0)  // Only pick if never called today
       .order('time', { ascending: true });
@@ -417,18 +612,28 @@ async function findAnchorMedications(
       return null;
     }
 
-    console.log(`⚓ Condition 1 (First call, retry_count=0): ${newMeds?.length || 0} found`);
+    // Keep only meds whose time matches their owner's local anchor window
+    // and that are due on the owner's dose day (snoozed meds wait for CONDITION 2)
+    const newMeds = toMedications(candidateMeds).filter(med => {
+      if (escalationUserIds.has(med.user_id)) return false;
+      const timeZone = getUserTimezone(userTimezones, med.user_id);
+      return (anchorTimesByZone.get(timeZone)?.has(med.time) ?? false) &&
+        isDueOn(med, getDoseDate(now, timeZone, RESET_HOUR)) &&
+        !isSnoozedAt(med.snoozed_until, now);
+    });
+
+    console.log(`⚓ Condition 1 (First call, retry_count=0): ${newMeds.length} found`);
 
     // ============================================================================
-    // CONDITION 2: Retry Call (called before, cooldown expired, under limit)
-    // is_taken=false AND last_called_at < cooldownThreshold AND retry_count < MAX_RETRY_COUNT
+    // CONDITION 2: Snoozed Call (snooze expired, under limit)
+    // is_taken=false AND snoozed_until <= NOW AND retry_count < MAX_RETRY_COUNT
     // ============================================================================
-    const { data: retryMeds, error: retryMedsError } = await supabase
-      .from('medications')
-      .select('id, name, dosage, time, user_id, is_taken, last_called_at, retry_count')
+    const { data: retryData, error: retryMedsError } = await supabase
+      .from('medication_schedules')
+      .select(SCHEDULE_COLUMNS)
       .eq('is_taken', false)
-      .not('last_called_at', 'is', null)
-      .lt('last_called_at', cooldownISO)
+      .not('snoozed_until', 'is', null)
+      .lte('snoozed_until', nowISO)
       .lt('retry_count', MAX_RETRY_COUNT)  // Only pick if called less than 2 times (2-Strike Rule)
       .order('time', { ascending: true });
 
@@ -442,42 +647,45 @@ async function findAnchorMedications(
       return null;
     }
 
-    console.log(`⚓ Condition 2 (Retry call, retry_count<${MAX_RETRY_COUNT}, cooldown expired): ${retryMeds?.length || 0} found`);
+    // Archived courses never retry (their last dose day has closed)
+    const retryMeds = toMedications(retryData).filter(med => !med.archived && !escalationUserIds.has(med.user_id));
+
+    console.log(`⚓ Condition 2 (Snoozed call, retry_count<${MAX_RETRY_COUNT}, snooze expired): ${retryMeds.length} found`);
 
     // Combine both sets of medications
-    const allAnchorMeds = [...(newMeds || []), ...(retryMeds || [])];
+    const allAnchorMeds = [...newMeds, ...retryMeds];
 
     if (allAnchorMeds.length === 0) {
-      console.log('📭 No anchor medications found (nothing due, all in cooldown, or retry limit reached)');
+      console.log('📭 No anchor medications found (nothing due, all snoozed, or retry limit reached)');
       return { anchorUserIds: new Set(), anchorCount: 0 };
     }
 
-    // Log medications that are in cooldown (for debugging)
-    const { data: cooldownMeds } = await supabase
-      .from('medications')
-      .select('id, name, time, last_called_at, retry_count')
+    // Log medications that are still snoozed (for debugging)
+    const { data: snoozedData } = await supabase
+      .from('medication_schedules')
+      .select(SCHEDULE_COLUMNS)
       .eq('is_taken', false)
-      .not('last_called_at', 'is', null)
-      .gte('last_called_at', cooldownISO)
+      .gt('snoozed_until', nowISO)
       .lt('retry_count', MAX_RETRY_COUNT);  // Only show those that will retry later
 
-    if (cooldownMeds && cooldownMeds.length > 0) {
-      console.log(`⏸️ Skipped ${cooldownMeds.length} meds in cooldown (called within ${SNOOZE_COOLDOWN_MINUTES} mins):`);
-      for (const med of cooldownMeds) {
-        const calledAt = new Date(med.last_called_at);
-        const minsAgo = Math.floor((now.getTime() - calledAt.getTime()) / 60000);
-        console.log(`   - ${med.name} (${med.time}): called ${minsAgo} mins ago, retry_count=${med.retry_count}`);
+    const snoozedMeds = toMedications(snoozedData);
+    if (snoozedMeds.length > 0) {
+      console.log(`⏸️ Skipped ${snoozedMeds.length} snoozed meds:`);
+      for (const med of snoozedMeds) {
+        const minsLeft = Math.ceil((new Date(med.snoozed_until!).getTime() - now.getTime()) / 60000);
+        console.log(`   - ${med.name} (${med.time}): snoozed for ${minsLeft} more mins, retry_count=${med.retry_count}`);
       }
     }
 
     // Log medications that have hit retry limit (2-Strike Rule)
-    const { data: limitReachedMeds } = await supabase
-      .from('medications')
-      .select('id, name, time, retry_count')
+    const { data: limitReachedData } = await supabase
+      .from('medication_schedules')
+      .select(SCHEDULE_COLUMNS)
       .eq('is_taken', false)
       .gte('retry_count', MAX_RETRY_COUNT);
 
-    if (limitReachedMeds && limitReachedMeds.length > 0) {
+    const limitReachedMeds = toMedications(limitReachedData);
+    if (limitReachedMeds.length > 0) {
       console.log(`🚫 Skipped ${limitReachedMeds.length} meds - retry limit reached (2-Strike Rule):`);
       for (const med of limitReachedMeds) {
         console.log(`   - ${med.name} (${med.time}): retry_count=${med.retry_count} (max ${MAX_RETRY_COUNT})`);
@@ -486,14 +694,14 @@ async function findAnchorMedications(
 
     // Extract unique user IDs from anchor medications
     const anchorUserIds = new Set<string>();
-    for (const med of allAnchorMeds as Medication[]) {
+    for (const med of allAnchorMeds) {
       if (med.user_id) {
         anchorUserIds.add(med.user_id);
       }
     }
 
     console.log(`⚓ Anchor breakdown: ${allAnchorMeds.length} medications from ${anchorUserIds.size} users`);
-    console.log(`   - First call: ${newMeds?.length || 0}, Retry: ${retryMeds?.length || 0}`);
+    console.log(`   - First call: ${newMeds.length}, Snoozed: ${retryMeds.length}`);
 
     return { anchorUserIds, anchorCount: allAnchorMeds.length };
   } catch (err) {
@@ -507,12 +715,15 @@ async function findAnchorMedications(
  * 
  * This function collects TWO types of meds:
  * 1. FUTURE MEDS: time >= now AND time <= now+30 mins (upcoming meds to batch)
- * 2. RETRY MEDS: Past meds with expired cooldown (last_called_at < NOW - 15 mins)
+ * 2. RETRY MEDS: Past meds whose snooze has expired (snoozed_until <= NOW)
  * 
- * Uses Pakistan timezone and handles midnight crossover for future meds
+ * The window is evaluated in each user's own timezone and handles midnight
+ * crossover (e.g. 23:50 -> 00:20) for future meds. Schedules not due on the
+ * user's dose day (recurrence, course start/end dates) are skipped.
  */
 async function sweepUserMedications(
   supabase: ReturnType<typeof createClient>,
+  userTimezones: Map<string, string>,
   anchorUserIds: Set<string>,
   sweepStart: Date,
   sweepEnd: Date
@@ -522,162 +733,134 @@ async function sweepUserMedications(
   const userBatches = new Map<string, MedicationItem[]>();
   const userIds = new Set<string>();
 
-  // Get time range in HH:MM format (Pakistan timezone)
-  const nowTime = sweepStart.toLocaleTimeString('en-GB', {
-    timeZone: 'Asia/Karachi',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false
-  });
-
-  const windowEndTime = sweepEnd.toLocaleTimeString('en-GB', {
-    timeZone: 'Asia/Karachi',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false
-  });
-
-  // Calculate cooldown threshold for retry meds
-  const cooldownThreshold = new Date(sweepStart.getTime() - SNOOZE_COOLDOWN_MINUTES * 60 * 1000);
-  const cooldownISO = cooldownThreshold.toISOString();
-
-  console.log(`🧹 Sweep time range: ${nowTime} to ${windowEndTime}`);
-  console.log(`🧹 Retry cooldown threshold: ${cooldownISO}`);
-
-  // ============================================================================
-  // QUERY 1: Future meds (time >= now AND time <= now+30 mins)
-  // Only meds that haven't hit retry limit
-  // ============================================================================
-  let futureMeds: Medication[] = [];
-  
-  const crossesMidnight = windowEndTime < nowTime;
-  
-  if (crossesMidnight) {
-    console.log('🌙 Detected midnight crossover - using OR query for future meds');
-    
-    const result = await supabase
-      .from('medications')
-      .select('id, name, dosage, time, user_id, is_taken, last_called_at, retry_count')
-      .eq('is_taken', false)
-      .lt('retry_count', MAX_RETRY_COUNT)  // 2-Strike Rule
-      .or(`time.gte.${nowTime},time.lte.${windowEndTime}`)
-      .order('time', { ascending: true });
-    
-    if (result.error) {
-      console.error('❌ Future Meds Query Failed:', result.error.message);
-    } else {
-      futureMeds = (result.data || []) as Medication[];
-    }
-  } else {
-    console.log('☀️ Normal time window - using range query for future meds');
-    
-    const result = await supabase
-      .from('medications')
-      .select('id, name, dosage, time, user_id, is_taken, last_called_at, retry_count')
-      .eq('is_taken', false)
-      .lt('retry_count', MAX_RETRY_COUNT)  // 2-Strike Rule
-      .gte('time', nowTime)
-      .lte('time', windowEndTime)
-      .order('time', { ascending: true });
-    
-    if (result.error) {
-      console.error('❌ Future Meds Query Failed:', result.error.message);
-    } else {
-      futureMeds = (result.data || []) as Medication[];
-    }
-  }
-
-  console.log(`🧹 Query 1 (Future meds, retry_count<${MAX_RETRY_COUNT}): ${futureMeds.length} found`);
+  // Retry meds must have their snooze expired by now
+  const now = new Date();
+  console.log(`🧹 Snooze expiry threshold: ${now.toISOString()}`);
 
   // ============================================================================
-  // QUERY 2: Retry meds (PAST meds with expired cooldown)
-  // These are meds where:
-  // - is_taken = false (not taken yet)
-  // - last_called_at IS NOT NULL (was called before)
-  // - last_called_at < cooldownThreshold (cooldown expired, eligible for retry)
-  // - time < nowTime (scheduled time is in the past)
-  // - retry_count < MAX_RETRY_COUNT (2-Strike Rule)
+  // QUERY: All pending meds for anchor users
+  // Only meds that haven't hit retry limit; time filtering happens per user below
   // ============================================================================
-  let retryMeds: Medication[] = [];
-  
-  const { data: retryData, error: retryError } = await supabase
-    .from('medications')
-    .select('id, name, dosage, time, user_id, is_taken, last_called_at, retry_count')
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .in('user_id', [...anchorUserIds])
     .eq('is_taken', false)
-    .not('last_called_at', 'is', null)
-    .lt('last_called_at', cooldownISO)
-    .lt('time', nowTime)  // Past meds only (time < now)
     .lt('retry_count', MAX_RETRY_COUNT)  // 2-Strike Rule
     .order('time', { ascending: true });
 
-  if (retryError) {
-    console.error('❌ Retry Meds Query Failed:', retryError.message);
-  } else {
-    retryMeds = (retryData || []) as Medication[];
+  if (error) {
+    console.error('❌ Sweep Query Failed:', error.message);
+    return { userBatches, userIds };
   }
 
-  console.log(`🧹 Query 2 (Retry meds - past with expired cooldown): ${retryMeds.length} found`);
+  const pendingMeds = toMedications(data);
+
+  // Per-user local window (HH:MM) - computed once per user
+  const windows = new Map<string, { nowTime: string; windowEndTime: string; doseDate: string }>();
+  for (const userId of anchorUserIds) {
+    const timeZone = getUserTimezone(userTimezones, userId);
+    const nowTime = getLocalTime(sweepStart, timeZone);
+    const windowEndTime = getLocalTime(sweepEnd, timeZone);
+    windows.set(userId, { nowTime, windowEndTime, doseDate: getDoseDate(sweepStart, timeZone, RESET_HOUR) });
+
+    const crossesMidnight = windowEndTime < nowTime;
+    console.log(`🧹 User ${userId} (${timeZone}): ${nowTime} to ${windowEndTime}${crossesMidnight ? ' 🌙 midnight crossover' : ''}`);
+  }
 
   // ============================================================================
-  // Combine and deduplicate
+  // FILTER 1: Future meds (time >= now AND time <= now+30 mins, local)
+  // FILTER 2: Retry meds (PAST meds with expired snooze)
+  // - snoozed_until IS NOT NULL (called before, or snoozed in the app)
+  // - snoozed_until <= now (snooze expired, eligible for retry)
+  // - time < nowTime (scheduled time is in the past, local)
   // ============================================================================
-  const seenIds = new Set<string>();
-  const allSweepMeds: Medication[] = [];
-
-  // Add future meds first
-  for (const med of futureMeds) {
-    if (!seenIds.has(med.id)) {
-      seenIds.add(med.id);
-      allSweepMeds.push(med);
+  const includedMeds: Medication[] = [];
+  let futureCount = 0;
+  let retryCount = 0;
+
+  for (const med of pendingMeds) {
+    if (!med.user_id) {
+      console.warn('⚠️ Skipping medication with missing user_id:', med.id);
+      continue;
+    }
+
+    const window = windows.get(med.user_id);
+
+    // CRITICAL: Only include users who have anchors
+    if (!window) {
+      continue;
     }
-  }
 
-  // Add retry meds (deduped)
-  for (const med of retryMeds) {
-    if (!seenIds.has(med.id)) {
-      seenIds.add(med.id);
-      allSweepMeds.push(med);
+    // Not due today (recurrence day off, or outside the course window)
+    if (!isDueOn(med, window.doseDate)) {
+      continue;
     }
+
+    const isFuture = isTimeInWindow(med.time, window.nowTime, window.windowEndTime);
+    const isRetry = med.snoozed_until !== null &&
+      !isSnoozedAt(med.snoozed_until, now) &&
+      med.time < window.nowTime;
+
+    if (isFuture) futureCount++;
+    else if (isRetry) retryCount++;
+    else continue;
+
+    includedMeds.push(med);
   }
 
-  if (allSweepMeds.length === 0) {
+  console.log(`🧹 Future meds: ${futureCount}, retry meds (past with expired snooze): ${retryCount}`);
+
+  if (includedMeds.length === 0) {
     console.log('📭 No medications found in sweep');
     return { userBatches, userIds };
   }
 
-  console.log(`🧹 Combined total: ${allSweepMeds.length} medications (${futureMeds.length} future + ${retryMeds.length} retry, deduped)`);
-
-  // Filter to only include anchor users and group by user_id
-  let includedCount = 0;
-  for (const med of allSweepMeds) {
-    if (!med.user_id) {
-      console.warn('⚠️ Skipping medication with missing user_id:', med.id);
-      continue;
+  // Create (or reuse) today's pending dose event for every batched medication,
+  // grouped by each user's local dose day
+  const medsByDoseDate = new Map<string, Medication[]>();
+  for (const med of includedMeds) {
+    const doseDate = windows.get(med.user_id)!.doseDate;
+    if (!medsByDoseDate.has(doseDate)) {
+      medsByDoseDate.set(doseDate, []);
     }
+    medsByDoseDate.get(doseDate)!.push(med);
+  }
 
-    const userId = med.user_id;
+  const eventIds = new Map<string, string>();
+  const skippedIds = new Set<string>();
+  for (const [doseDate, meds] of medsByDoseDate) {
+    const events = await ensureDoseEvents(supabase, meds, doseDate);
+    events.forEach((event, medId) => {
+      eventIds.set(medId, event.id);
+      if (event.status === 'skipped') skippedIds.add(medId);
+    });
+  }
 
-    // CRITICAL: Only include users who have anchors
-    if (!anchorUserIds.has(userId)) {
+  for (const med of includedMeds) {
+    // Skipped from the app's alarm screen - no call for this dose
+    if (skippedIds.has(med.id)) {
+      console.log(`⏭️ Skipping ${med.name} (${med.time}): dose skipped by user`);
       continue;
     }
 
-    userIds.add(userId);
+    userIds.add(med.user_id);
 
-    if (!userBatches.has(userId)) {
-      userBatches.set(userId, []);
+    if (!userBatches.has(med.user_id)) {
+      userBatches.set(med.user_id, []);
     }
 
-    userBatches.get(userId)!.push({
+    userBatches.get(med.user_id)!.push({
       id: med.id,
       name: med.name,
-      logId: '', // No separate log table
+      dosage: getSpokenDosage(med, windows.get(med.user_id)!.doseDate),
+      logId: eventIds.get(med.id) || '',
     });
-
-    includedCount++;
   }
 
-  console.log(`🧹 Sweep complete: ${includedCount} medications batched for ${userBatches.size} users`);
+  await attachRefillReminders(supabase, includedMeds.filter(med => !skippedIds.has(med.id)), userBatches);
+
+  console.log(`🧹 Sweep complete: ${includedMeds.length} medications batched for ${userBatches.size} users`);
 
   // Log per-user batch sizes
   for (const [userId, meds] of userBatches) {
@@ -687,6 +870,463 @@ async function sweepUserMedications(
   return { userBatches, userIds };
 }
 
+// ============================================================================
+// ESCALATION LADDER
+// ============================================================================
+
+/**
+ * Run the escalation ladder for users with an escalation policy
+ *
+ * For each of their schedules due on the owner's dose day whose time T has
+ * passed, the latest step with T + offset <= now runs once:
+ * - local_alarm: rung by the device's own notifee alarm, recorded as delegated
+ * - call: one batched make-call per user (retry_count still counts the calls)
+ * - caregiver_sms: text to profiles.caregiver_phone naming the missed doses
+ *
+ * Steps are claimed by inserting their dose_escalations row first (unique per
+ * schedule, dose day and step), so overlapping runs never repeat a step. A
+ * snoozed dose holds its next step until snoozed_until. Once the dose is
+ * acknowledged - taken anywhere, or taken / skipped on its dose event - the
+ * steps left are recorded as cancelled.
+ */
+async function processEscalations(
+  supabase: ReturnType<typeof createClient>,
+  supabaseUrl: string,
+  serviceKey: string,
+  userTimezones: Map<string, string>,
+  profiles: Map<string, EscalationProfile>,
+  now: Date
+): Promise<EscalationResult> {
+  const result: EscalationResult = { steps_run: 0, steps_cancelled: 0, errors: [] };
+  if (profiles.size === 0) return result;
+
+  console.log(`🪜 Running escalation ladders for ${profiles.size} users...`);
+
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .in('user_id', [...profiles.keys()]);
+
+  if (error) {
+    console.error('❌ Escalation Query Failed:', error.message);
+    result.errors.push(`Escalation query failed: ${error.message}`);
+    return result;
+  }
+
+  // Doses of the owner's current dose day whose time has come
+  const started: { med: Medication; doseDate: string; doseAt: Date }[] = [];
+  for (const med of toMedications(data)) {
+    const timeZone = getUserTimezone(userTimezones, med.user_id);
+    const doseDate = getDoseDate(now, timeZone, RESET_HOUR);
+    if (!isDueOn(med, doseDate)) continue;
+
+    const doseAt = getDoseInstant(doseDate, med.time, timeZone, RESET_HOUR);
+    if (doseAt.getTime() > now.getTime()) continue;
+
+    started.push({ med, doseDate, doseAt });
+  }
+
+  if (started.length === 0) {
+    console.log('🪜 No escalating doses');
+    return result;
+  }
+
+  // Last step already recorded per dose
+  const { data: stepRows, error: stepError } = await supabase
+    .from('dose_escalations')
+    .select('schedule_id, dose_date, step_index')
+    .in('schedule_id', started.map(d => d.med.id))
+    .in('dose_date', [...new Set(started.map(d => d.doseDate))]);
+
+  if (stepError) {
+    console.error('❌ Failed to load escalation steps:', stepError.message);
+    result.errors.push(`Escalation steps query failed: ${stepError.message}`);
+    return result;
+  }
+
+  const lastRecorded = new Map<string, number>();
+  for (const row of stepRows || []) {
+    const key = `${row.schedule_id}|${row.dose_date}`;
+    lastRecorded.set(key, Math.max(lastRecorded.get(key) ?? -1, row.step_index));
+  }
+
+  // Dose events carry acknowledgements from every channel (app, notification, IVR)
+  const events = new Map<string, { id: string; status: string }>();
+  const pendingByDoseDate = new Map<string, Medication[]>();
+  for (const { med, doseDate } of started) {
+    if (med.is_taken) continue;
+    if (!pendingByDoseDate.has(doseDate)) {
+      pendingByDoseDate.set(doseDate, []);
+    }
+    pendingByDoseDate.get(doseDate)!.push(med);
+  }
+  for (const [doseDate, meds] of pendingByDoseDate) {
+    (await ensureDoseEvents(supabase, meds, doseDate)).forEach((event, medId) => events.set(medId, event));
+  }
+
+  const rows: {
+    schedule_id: string;
+    user_id: string;
+    dose_date: string;
+    step_index: number;
+    channel: EscalationChannel;
+    status: EscalationStatus;
+    detail: string | null;
+    due_at: string;
+  }[] = [];
+
+  for (const { med, doseDate, doseAt } of started) {
+    const { policy } = profiles.get(med.user_id)!;
+    const last = lastRecorded.get(`${med.id}|${doseDate}`) ?? -1;
+    const event = events.get(med.id);
+    const toRow = (index: number, status: EscalationStatus, detail: string | null) => ({
+      schedule_id: med.id,
+      user_id: med.user_id,
+      dose_date: doseDate,
+      step_index: index,
+      channel: policy[index].channel,
+      status,
+      detail,
+      due_at: new Date(doseAt.getTime() + policy[index].offset_minutes * 60 * 1000).toISOString(),
+    });
+
+    const acknowledgement = med.is_taken ? 'taken'
+      : event?.status === 'taken' || event?.status === 'skipped' ? event.status
+      : null;
+
+    if (acknowledgement) {
+      // Close the ladder once; doses acknowledged before T never started one
+      if (last >= 0) {
+        for (let index = last + 1; index < policy.length; index++) {
+          rows.push(toRow(index, 'cancelled', `Dose ${acknowledgement} before this step`));
+        }
+      }
+      continue;
+    }
+
+    if (isSnoozedAt(med.snoozed_until, now)) {
+      console.log(`⏸️ ${med.name} (${med.time}): snoozed, next escalation step waits`);
+      continue;
+    }
+
+    const minutesSinceDose = Math.floor((now.getTime() - doseAt.getTime()) / 60000);
+    const { run, superseded } = getDueSteps(policy, minutesSinceDose, last);
+
+    for (const index of superseded) {
+      rows.push(toRow(index, 'skipped', 'Superseded by a later step'));
+    }
+    if (run !== null) {
+      rows.push(toRow(run, 'pending', null));
+    }
+  }
+
+  if (rows.length === 0) {
+    console.log('🪜 No escalation steps due');
+    return result;
+  }
+
+  // CLAIM: only rows this run inserted come back; steps another run claimed are left alone
+  const { data: inserted, error: insertError } = await supabase
+    .from('dose_escalations')
+    .upsert(rows, { onConflict: 'schedule_id,dose_date,step_index', ignoreDuplicates: true })
+    .select('id, schedule_id, dose_date, channel, status');
+
+  if (insertError) {
+    console.error('🛑 Failed to claim escalation steps, nothing sent:', insertError.message);
+    result.errors.push(`Escalation claim failed: ${insertError.message}`);
+    return result;
+  }
+
+  const doses = new Map(started.map(d => [`${d.med.id}|${d.doseDate}`, d]));
+  const claimsByUser = new Map<string, EscalationClaim[]>();
+
+  for (const row of inserted || []) {
+    if (row.status === 'cancelled') {
+      result.steps_cancelled++;
+      continue;
+    }
+    if (row.status !== 'pending') continue;
+
+    const dose = doses.get(`${row.schedule_id}|${row.dose_date}`);
+    if (!dose) continue;
+
+    if (!claimsByUser.has(dose.med.user_id)) {
+      claimsByUser.set(dose.med.user_id, []);
+    }
+    claimsByUser.get(dose.med.user_id)!.push({
+      rowId: row.id,
+      channel: row.channel,
+      med: dose.med,
+      doseDate: dose.doseDate,
+      logId: events.get(dose.med.id)?.id || '',
+    });
+  }
+
+  if (result.steps_cancelled > 0) {
+    console.log(`🛑 Cancelled ${result.steps_cancelled} escalation steps (doses acknowledged)`);
+  }
+
+  const outcomes = await Promise.allSettled(
+    Array.from(claimsByUser).map(([userId, claims]) =>
+      runEscalationSteps(supabase, supabaseUrl, serviceKey, userId, profiles.get(userId)!, claims)
+    )
+  );
+
+  for (const outcome of outcomes) {
+    if (outcome.status === 'fulfilled') {
+      result.steps_run += outcome.value.stepsRun;
+      result.errors.push(...outcome.value.errors);
+    } else {
+      console.error('❌ Unexpected escalation rejection:', outcome.reason);
+      result.errors.push(`Unexpected escalation error: ${outcome.reason}`);
+    }
+  }
+
+  console.log(`🪜 Escalation complete: ${result.steps_run} steps run, ${result.steps_cancelled} cancelled, ${result.errors.length} errors`);
+  return result;
+}
+
+/**
+ * Run one user's claimed escalation steps and record each outcome
+ * Calls for several doses go out as a single batched call, like the 2-strike flow.
+ */
+async function runEscalationSteps(
+  supabase: ReturnType<typeof createClient>,
+  supabaseUrl: string,
+  serviceKey: string,
+  userId: string,
+  profile: EscalationProfile,
+  claims: EscalationClaim[]
+): Promise<{ stepsRun: number; errors: string[] }> {
+  const errors: string[] = [];
+  const byChannel = (channel: EscalationChannel) => claims.filter(c => c.channel === channel);
+  const rowIds = (list: EscalationClaim[]) => list.map(c => c.rowId);
+
+  // LOCAL ALARM: the device rings on its own (notifee trigger), nothing to send
+  const alarms = byChannel('local_alarm');
+  if (alarms.length > 0) {
+    await recordEscalationOutcome(supabase, rowIds(alarms), 'delegated', 'Rung by the device alarm');
+  }
+
+  const calls = byChannel('call');
+  const texts = byChannel('caregiver_sms');
+  const user = calls.length > 0 || texts.length > 0 ? await fetchUserContact(supabase, userId) : null;
+
+  // CALL: same circuit breaker as the 2-strike flow - no stats update, no call
+  if (calls.length > 0) {
+    if (!user?.phone) {
+      await recordEscalationOutcome(supabase, rowIds(calls), 'skipped', 'No phone number available');
+    } else if (!(await updateMedicationStats(supabase, calls.map(c => c.med.id), null))) {
+      console.error('🛑 CIRCUIT BREAKER TRIGGERED: escalation call aborted for user', userId);
+      await recordEscalationOutcome(supabase, rowIds(calls), 'failed', 'Circuit breaker: DB update failed');
+      errors.push(`User ${userId}: escalation call aborted (DB update failed)`);
+    } else {
+      const medications: MedicationItem[] = calls.map(c => ({
+        id: c.med.id,
+        name: c.med.name,
+        dosage: getSpokenDosage(c.med, c.doseDate),
+        logId: c.logId,
+      }));
+      const batches = new Map([[userId, medications]]);
+      await attachRefillReminders(supabase, calls.map(c => c.med), batches);
+
+      console.log(`📞 Escalation call for user ${userId}: ${medications.map(m => m.name).join(', ')}`);
+
+      try {
+        const callResult = await triggerMakeCall(supabaseUrl, serviceKey, {
+          userId,
+          phoneNumber: user.phone,
+          userName: user.name,
+          medications,
+        });
+
+        if (callResult.success) {
+          await markRefillsMentioned(supabase, medications);
+          await recordEscalationOutcome(supabase, rowIds(calls), 'sent', null, callResult.callSid);
+        } else {
+          await recordEscalationOutcome(supabase, rowIds(calls), 'failed', callResult.error || 'Call failed');
+          errors.push(`User ${userId}: escalation call failed: ${callResult.error}`);
+        }
+      } catch (err) {
+        const errorMsg = (err as Error).message;
+        await recordEscalationOutcome(supabase, rowIds(calls), 'failed', errorMsg);
+        errors.push(`User ${userId}: escalation call failed: ${errorMsg}`);
+      }
+    }
+  }
+
+  // CAREGIVER SMS: one text listing every dose that reached this step
+  if (texts.length > 0) {
+    if (!profile.caregiverPhone) {
+      await recordEscalationOutcome(supabase, rowIds(texts), 'skipped', 'No caregiver phone number');
+    } else {
+      const names = texts.map(c => `${c.med.name} (${c.med.time})`).join(', ');
+      const body = `${user?.name || 'Your family member'} has not confirmed taking: ${names}. Please check in with them.`;
+
+      console.log(`💬 Caregiver SMS for user ${userId}: ${names}`);
+      const smsResult = await sendSms(sanitizePhoneNumber(profile.caregiverPhone), body);
+
+      if (smsResult.success) {
+        await recordEscalationOutcome(supabase, rowIds(texts), 'sent', null, smsResult.messageSid);
+      } else {
+        await recordEscalationOutcome(supabase, rowIds(texts), 'failed', smsResult.error || 'SMS failed');
+        errors.push(`User ${userId}: caregiver SMS failed: ${smsResult.error}`);
+      }
+    }
+  }
+
+  return { stepsRun: claims.length, errors };
+}
+
+/**
+ * Store the outcome of claimed escalation steps
+ */
+async function recordEscalationOutcome(
+  supabase: ReturnType<typeof createClient>,
+  rowIds: string[],
+  status: EscalationStatus,
+  detail: string | null,
+  externalId?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('dose_escalations')
+    .update({
+      status,
+      detail,
+      external_id: externalId || null,
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', rowIds);
+
+  if (error) {
+    console.error(`❌ Failed to record escalation outcome (${status}):`, error.message);
+  }
+}
+
+// ============================================================================
+// CAREGIVER ALERTS
+// ============================================================================
+
+/**
+ * Alert caregivers about doses that reached the 2-strike limit untaken
+ *
+ * A dose qualifies once both calls were made (retry_count >= MAX_RETRY_COUNT),
+ * the snooze after the last call has run out, and it is still neither taken
+ * nor skipped on the owner's current dose day. Each user's qualifying doses
+ * go out as one alert per caregiver (_shared/caregiverAlerts.ts).
+ *
+ * caregiver_alerted_at is claimed BEFORE anything is sent (same circuit
+ * breaker as the calls): a dose another run already claimed, or whose claim
+ * failed, is never alerted twice. daily-rollover clears it for the next day.
+ *
+ * Users with an escalation policy are skipped; their ladder has its own
+ * caregiver_sms step.
+ */
+async function alertCaregiversForMissedDoses(
+  supabase: ReturnType<typeof createClient>,
+  userTimezones: Map<string, string>,
+  escalationUserIds: Set<string>,
+  now: Date
+): Promise<CaregiverAlertResult> {
+  const result: CaregiverAlertResult = { patients_alerted: 0, alerts_sent: 0, alerts_failed: 0, errors: [] };
+
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .eq('is_taken', false)
+    .gte('retry_count', MAX_RETRY_COUNT)
+    .is('caregiver_alerted_at', null);
+
+  if (error) {
+    console.error('❌ Missed dose query failed:', error.message);
+    result.errors.push(`Missed dose query failed: ${error.message}`);
+    return result;
+  }
+
+  // Missed doses of each user's current dose day, grouped per user and day
+  const missedByUser = new Map<string, { doseDate: string; meds: Medication[] }>();
+  for (const med of toMedications(data)) {
+    if (escalationUserIds.has(med.user_id)) continue;
+    if (isSnoozedAt(med.snoozed_until, now)) continue;
+
+    const doseDate = getDoseDate(now, getUserTimezone(userTimezones, med.user_id), RESET_HOUR);
+    if (!isDueOn(med, doseDate)) continue;
+
+    if (!missedByUser.has(med.user_id)) {
+      missedByUser.set(med.user_id, { doseDate, meds: [] });
+    }
+    missedByUser.get(med.user_id)!.meds.push(med);
+  }
+
+  if (missedByUser.size === 0) {
+    return result;
+  }
+
+  console.log(`👪 ${missedByUser.size} users have missed doses after ${MAX_RETRY_COUNT} calls`);
+
+  for (const [userId, { doseDate, meds }] of missedByUser) {
+    // Skipped in the app (or via a notification) is a decision, not a missed dose
+    const { data: events, error: eventsError } = await supabase
+      .from('dose_events')
+      .select('schedule_id, status')
+      .in('schedule_id', meds.map(med => med.id))
+      .eq('dose_date', doseDate);
+
+    if (eventsError) {
+      console.error(`❌ Failed to load dose events for user ${userId}:`, eventsError.message);
+      result.errors.push(`User ${userId}: ${eventsError.message}`);
+      continue;
+    }
+
+    const acknowledged = new Set(
+      (events || [])
+        .filter(event => event.status === 'taken' || event.status === 'skipped')
+        .map(event => event.schedule_id)
+    );
+    const missed = meds.filter(med => !acknowledged.has(med.id));
+    if (missed.length === 0) continue;
+
+    // CLAIM: only doses this run marks are alerted
+    const { data: claimed, error: claimError } = await supabase
+      .from('medication_schedules')
+      .update({ caregiver_alerted_at: now.toISOString() })
+      .in('id', missed.map(med => med.id))
+      .is('caregiver_alerted_at', null)
+      .select('id');
+
+    if (claimError) {
+      console.error(`🛑 Failed to claim missed doses for user ${userId}, no alert sent:`, claimError.message);
+      result.errors.push(`User ${userId}: claim failed: ${claimError.message}`);
+      continue;
+    }
+
+    const claimedIds = new Set((claimed || []).map(row => row.id as string));
+    const doses: MissedDose[] = missed
+      .filter(med => claimedIds.has(med.id))
+      .map(med => ({ scheduleId: med.id, name: med.name, time: med.time }));
+    if (doses.length === 0) continue;
+
+    const patient = await fetchUserContact(supabase, userId);
+    const outcome = await alertCaregivers(
+      supabase,
+      { id: userId, name: patient?.name || 'Your family member' },
+      doseDate,
+      doses,
+      async (caregiverId) => (await fetchUserContact(supabase, caregiverId))?.phone ?? null
+    );
+
+    result.patients_alerted++;
+    result.alerts_sent += outcome.sent;
+    result.alerts_failed += outcome.failed;
+    if (outcome.failed > 0) {
+      result.errors.push(`User ${userId}: ${outcome.failed} caregiver alerts failed`);
+    }
+  }
+
+  console.log(`👪 Caregiver alerts: ${result.alerts_sent} sent, ${result.alerts_failed} failed`);
+  return result;
+}
+
 // ============================================================================
 // OLD QUERY FUNCTIONS (DEPRECATED - Kept for reference)
 // ============================================================================
@@ -881,17 +1521,20 @@ async function queryMedicationsTable_DEPRECATED(
  * CRITICAL: Uses individual updates in parallel (Promise.all) to ensure stats are saved
  * 
  * Updates:
- * - last_called_at = NOW() (for cooldown tracking)
+ * - last_called_at = NOW()
+ * - snoozed_until = NOW() + the user's snooze length (next anchor time);
+ *   skipped when snoozeMinutes is null (escalation ladders time their own steps)
  * - retry_count = retry_count + 1 (for 2-Strike Rule)
  * 
  * This ensures that:
- * 1. Batched meds (8:00 + 8:05) won't re-trigger at 8:05 (cooldown active)
- * 2. If user says "No", retry won't happen until cooldown expires
+ * 1. Batched meds (8:00 + 8:05) won't re-trigger at 8:05 (already called)
+ * 2. If user says "No", retry won't happen until the snooze expires
  * 3. After 2 calls (retry_count=2), no more calls are made (2-Strike Rule)
  */
 async function updateMedicationStats(
   supabase: ReturnType<typeof createClient>,
-  medicationIds: string[]
+  medicationIds: string[],
+  snoozeMinutes: number | null
 ): Promise<boolean> {
   if (medicationIds.length === 0) {
     console.log('⏰ No medication IDs to update');
@@ -903,11 +1546,14 @@ async function updateMedicationStats(
 
   try {
     const now = new Date().toISOString();
+    const snoozedUntil = snoozeMinutes === null
+      ? null
+      : new Date(Date.now() + snoozeMinutes * 60 * 1000).toISOString();
     
-    // Step 1: Fetch current medications to get their retry_count
-    const { data: currentMeds, error: fetchError } = await supabase
-      .from('medications')
-      .select('id, name, retry_count')
+    // Step 1: Fetch current schedules to get their retry_count
+    const { data: currentData, error: fetchError } = await supabase
+      .from('medication_schedules')
+      .select(SCHEDULE_COLUMNS)
       .in('id', medicationIds);
 
     if (fetchError) {
@@ -920,7 +1566,9 @@ async function updateMedicationStats(
       return false;
     }
 
-    if (!currentMeds || currentMeds.length === 0) {
+    const currentMeds = toMedications(currentData);
+
+    if (currentMeds.length === 0) {
       console.error('❌ No medications found with provided IDs');
       return false;
     }
@@ -935,10 +1583,11 @@ async function updateMedicationStats(
       console.log(`⏰ Updating ${med.name} (${med.id}): retry_count ${oldRetryCount} -> ${newRetryCount}`);
 
       const { error: updateError, count } = await supabase
-        .from('medications')
+        .from('medication_schedules')
         .update({
           last_called_at: now,
-          retry_count: newRetryCount
+          retry_count: newRetryCount,
+          ...(snoozedUntil ? { snoozed_until: snoozedUntil } : {})
         })
         .eq('id', med.id);
 
@@ -952,7 +1601,7 @@ async function updateMedicationStats(
         return { success: false, id: med.id, name: med.name, error: updateError.message };
       }
 
-      console.log(`✅ Updated ${med.name} (${med.id}): retry_count=${newRetryCount}, last_called_at=${now}, rows=${count}`);
+      console.log(`✅ Updated ${med.name} (${med.id}): retry_count=${newRetryCount}, snoozed_until=${snoozedUntil}, rows=${count}`);
       return { success: true, id: med.id, name: med.name, oldRetryCount, newRetryCount };
     });
 
@@ -992,6 +1641,241 @@ async function updateMedicationStats(
   }
 }
 
+/**
+ * Flatten schedule rows (with embedded medication) into Medication records
+ */
+function toMedications(rows: unknown[] | null): Medication[] {
+  return ((rows || []) as ScheduleRow[]).map(row => ({
+    id: row.id,
+    medication_id: row.medication_id,
+    name: row.medications?.name || 'your medication',
+    dosage: toDosage(row.medications?.dosage_amount, row.medications?.dosage_unit, row.medications?.dosage_form),
+    dosage_text: row.medications?.dosage || '',
+    time: row.time,
+    recurrence: row.recurrence,
+    start_date: row.medications?.start_date || null,
+    end_date: row.medications?.end_date || null,
+    taper_plan: row.medications?.taper_plan || null,
+    archived: Boolean(row.medications?.archived_at),
+    inventory_count: row.medications?.inventory_count ?? null,
+    units_per_dose: row.medications?.units_per_dose || 1,
+    refill_threshold_days: row.medications?.refill_threshold_days ?? 0,
+    refill_in_call: row.medications?.refill_in_call ?? false,
+    refill_call_mentioned_at: row.medications?.refill_call_mentioned_at || null,
+    user_id: row.user_id,
+    is_taken: row.is_taken,
+    last_called_at: row.last_called_at,
+    retry_count: row.retry_count || 0,
+    snoozed_until: row.snoozed_until || null,
+  }));
+}
+
+/**
+ * Dosage in effect on a dose day, worded for the IVR voice
+ * Unparsed legacy dosages are read out as typed
+ */
+function getSpokenDosage(med: Medication, doseDate: string): string {
+  if (!med.dosage) return med.dosage_text;
+  return formatDosageForSpeech(getDosageForDate(med.dosage, med.taper_plan, doseDate));
+}
+
+/**
+ * Flag batched medications whose supply is at or below their refill threshold
+ *
+ * Only medications that opted in (refill_in_call) and have not been mentioned
+ * since their last restock are flagged, once per batch. Days of supply use
+ * all of the medication's schedules, not just the ones in this batch.
+ */
+async function attachRefillReminders(
+  supabase: ReturnType<typeof createClient>,
+  includedMeds: Medication[],
+  userBatches: Map<string, MedicationItem[]>
+): Promise<void> {
+  const candidates = includedMeds.filter(med =>
+    med.inventory_count !== null && med.refill_in_call && !med.refill_call_mentioned_at
+  );
+  if (candidates.length === 0) return;
+
+  const medicationIds = [...new Set(candidates.map(med => med.medication_id))];
+  const { data, error } = await supabase
+    .from('medication_schedules')
+    .select('medication_id, recurrence')
+    .in('medication_id', medicationIds);
+
+  if (error) {
+    console.error('❌ Failed to load schedules for refill check:', error.message);
+    return;
+  }
+
+  const recurrencesByMedication = new Map<string, (RecurrenceRule | null)[]>();
+  for (const schedule of data || []) {
+    if (!recurrencesByMedication.has(schedule.medication_id)) {
+      recurrencesByMedication.set(schedule.medication_id, []);
+    }
+    recurrencesByMedication.get(schedule.medication_id)!.push(schedule.recurrence);
+  }
+
+  const flagged = new Set<string>();
+  for (const med of candidates) {
+    if (flagged.has(med.medication_id)) continue;
+
+    const daysLeft = getDaysOfSupply(
+      med.inventory_count!,
+      med.units_per_dose,
+      recurrencesByMedication.get(med.medication_id) || [med.recurrence]
+    );
+    if (daysLeft === null || daysLeft > med.refill_threshold_days) continue;
+
+    const item = userBatches.get(med.user_id)?.find(i => i.id === med.id);
+    if (!item) continue;
+
+    item.refill = { medicationId: med.medication_id, daysLeft };
+    flagged.add(med.medication_id);
+    console.log(`💊 Refill reminder for ${med.name}: ${daysLeft} days left (threshold ${med.refill_threshold_days})`);
+  }
+}
+
+/**
+ * Record that a call mentioned low supply, so the next calls don't repeat it
+ * (cleared by the app when the medication is restocked)
+ */
+async function markRefillsMentioned(
+  supabase: ReturnType<typeof createClient>,
+  medications: MedicationItem[]
+): Promise<void> {
+  const medicationIds = medications
+    .map(m => m.refill?.medicationId)
+    .filter((id): id is string => !!id);
+  if (medicationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('medications')
+    .update({ refill_call_mentioned_at: new Date().toISOString() })
+    .in('id', medicationIds);
+
+  if (error) {
+    console.error('❌ Failed to record refill mention:', error.message);
+  }
+}
+
+/**
+ * Check whether a schedule is due on a dose day: active course that includes
+ * the day, and a recurrence rule that fires on it
+ */
+function isDueOn(med: Medication, doseDate: string): boolean {
+  return !med.archived &&
+    isWithinCourse(med.start_date, med.end_date, doseDate) &&
+    isDoseDay(med.recurrence, doseDate);
+}
+
+/**
+ * Ensure a dose_events row exists for each medication on the given dose day
+ *
+ * Existing rows (e.g. already taken or skipped in the app) are left untouched.
+ * Returns a map of schedule id -> dose_events id and status
+ */
+async function ensureDoseEvents(
+  supabase: ReturnType<typeof createClient>,
+  medications: Medication[],
+  doseDate: string
+): Promise<Map<string, { id: string; status: string }>> {
+  const eventIds = new Map<string, { id: string; status: string }>();
+  if (medications.length === 0) return eventIds;
+
+  const { error: upsertError } = await supabase
+    .from('dose_events')
+    .upsert(
+      medications.map(med => ({
+        medication_id: med.medication_id,
+        schedule_id: med.id,
+        user_id: med.user_id,
+        dose_date: doseDate,
+        scheduled_time: med.time,
+        status: 'pending',
+        source: 'system',
+      })),
+      { onConflict: 'schedule_id,dose_date', ignoreDuplicates: true }
+    );
+
+  if (upsertError) {
+    console.error('❌ Failed to create dose events:', upsertError.message);
+  }
+
+  const { data, error } = await supabase
+    .from('dose_events')
+    .select('id, schedule_id, status')
+    .in('schedule_id', medications.map(med => med.id))
+    .eq('dose_date', doseDate);
+
+  if (error) {
+    console.error('❌ Failed to load dose events:', error.message);
+    return eventIds;
+  }
+
+  for (const event of data || []) {
+    eventIds.set(event.schedule_id, { id: event.id, status: event.status });
+  }
+
+  console.log(`📒 Dose events ready for ${eventIds.size}/${medications.length} medications (${doseDate})`);
+  return eventIds;
+}
+
+/**
+ * Load each user's reminder channel from profiles
+ * Users without a profile (or an unknown value) are left out and get calls
+ */
+async function loadReminderChannels(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, ReminderChannel>> {
+  const channels = new Map<string, ReminderChannel>();
+  if (userIds.length === 0) return channels;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, reminder_channel')
+    .in('id', userIds);
+
+  if (error) {
+    console.error('❌ Failed to load reminder channels (falling back to calls):', error.message);
+    return channels;
+  }
+
+  for (const profile of data || []) {
+    if (profile.reminder_channel === 'call' || profile.reminder_channel === 'sms') {
+      channels.set(profile.id, profile.reminder_channel);
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Get a user's name and phone number from auth.users (requires service role)
+ * Returns null if the user can't be loaded; phone is null if they have none
+ */
+async function fetchUserContact(
+  supabase: ReturnType<typeof createClient>,
+  userId: string
+): Promise<{ name: string; phone: string | null } | null> {
+  try {
+    const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
+
+    if (userError || !user) {
+      console.warn(`⚠️ Could not fetch user ${userId}:`, userError?.message);
+      return null;
+    }
+
+    const phone = user.phone || user.user_metadata?.phone;
+    const name = user.user_metadata?.name || user.email?.split('@')[0] || 'User';
+
+    return { name, phone: phone ? sanitizePhoneNumber(phone) : null };
+  } catch (err) {
+    console.error(`❌ Error fetching user ${userId}:`, err);
+    return null;
+  }
+}
+
 /**
  * Sanitize phone number to E.164 format
  */
@@ -1019,6 +1903,7 @@ async function triggerMakeCall(
   supabaseUrl: string,
   serviceKey: string,
   payload: {
+    userId: string;
     phoneNumber: string;
     userName: string;
     medications: MedicationItem[];
@@ -1047,3 +1932,42 @@ async function triggerMakeCall(
 
   return { success: true, callSid: data.callSid };
 }
+
+/**
+ * Trigger the send-sms edge function (text reminder instead of a call)
+ * send-sms only accepts the service role key in the Authorization header
+ */
+async function triggerSendSms(
+  supabaseUrl: string,
+  serviceKey: string,
+  payload: {
+    userId: string;
+    phoneNumber: string;
+    userName: string;
+    doseDate: string;
+    medications: MedicationItem[];
+  }
+): Promise<{ success: boolean; callSid?: string; error?: string }> {
+  const sendSmsUrl = `${supabaseUrl}/functions/v1/send-sms`;
+
+  console.log('🔗 Calling send-sms at:', sendSmsUrl);
+
+  const response = await fetch(sendSmsUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceKey}`,
+      'apikey': serviceKey,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    return { success: false, error: data.error || `HTTP ${response.status}` };
+  }
+
+  // Reported like a call: the message SID stands in for the call SID
+  return { success: true, callSid: data.messageSid };
+}
@@ -0,0 +1,432 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * SMS Reminder Edge Function
+ *
+ * Text-message alternative to make-call for users who can't take calls
+ * (profiles.reminder_channel = 'sms'). schedule-batches sends the same
+ * batched medication list here instead of to make-call.
+ *
+ * Flows (?flow=):
+ * - send (default): POST JSON from schedule-batches. Texts the batch through
+ *   the Twilio Messaging REST API (zero dependencies, see _shared/sms.ts)
+ *   and records it in sms_reminders so replies can find their doses.
+ *   Only accepted with the service role key.
+ * - status: Twilio delivery status callback for a sent reminder.
+ * - inbound: Twilio webhook for replies to our number (configure the
+ *   number's "A message comes in" URL as .../send-sms?flow=inbound).
+ *   Understands YES / 1 / TAKEN (dose taken), NO / 2 (still pending) and
+ *   SNOOZE [minutes] (remind again later), and applies it to the doses of
+ *   the latest reminder sent to that number.
+ *
+ * Twilio webhooks carry no Supabase JWT, so this function needs
+ * `verify_jwt = false`; status and inbound requests are accepted only with
+ * a valid X-Twilio-Signature (see _shared/twilioSignature.ts).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { updateDoseStatusBatch } from "../_shared/doseStatus.ts";
+import { sendSms } from "../_shared/sms.ts";
+import { getUserSnoozeMinutes, loadUserSnoozeMinutes } from "../_shared/snooze.ts";
+import { getDoseDate, getUserTimezone, loadUserTimezones } from "../_shared/timezone.ts";
+import { formDataToParams, getPublicFunctionUrl, isValidTwilioRequest } from "../_shared/twilioSignature.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RESET_HOUR = 3; // Dose day boundary (matches RESET_HOUR in constants/time.ts)
+const MAX_SNOOZE_MINUTES = 120; // Longest snooze accepted in a reply ("SNOOZE 90")
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface MedicationItem {
+  id: string; // medication_schedules.id
+  name: string;
+  dosage?: string; // Today's dosage (taper plans already resolved by schedule-batches)
+  logId?: string; // dose_events.id for this dose day
+  refill?: { medicationId: string; daysLeft: number }; // Low supply - mention in this text
+}
+
+interface SmsRequestBody {
+  userId: string;
+  phoneNumber: string;
+  userName?: string;
+  doseDate: string; // The user's dose day the batch belongs to
+  medications: MedicationItem[];
+}
+
+/**
+ * A parsed reply to a reminder
+ */
+type SmsReply =
+  | { action: 'taken' }
+  | { action: 'not_taken' }
+  | { action: 'snooze'; minutes: number | null } // null = the user's snooze length
+  | { action: 'unknown' };
+
+interface SmsReminderRow {
+  id: string;
+  user_id: string;
+  dose_date: string;
+  schedule_ids: string[];
+  log_ids: string[];
+  medication_names: string[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Escape special XML characters to prevent injection
+ */
+function escapeXML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Convert array of medication names to a natural list
+ * ['A', 'B', 'C'] -> "A, B, and C"
+ */
+function createList(items: string[]): string {
+  if (items.length === 0) return 'your medications';
+  if (items.length === 1) return items[0];
+  if (items.length === 2) return `${items[0]} and ${items[1]}`;
+
+  return `${items.slice(0, -1).join(', ')}, and ${items[items.length - 1]}`;
+}
+
+/**
+ * Build the reminder text for a batch
+ */
+function createReminderText(userName: string, medications: MedicationItem[]): string {
+  const list = createList(medications.map(m => m.dosage ? `${m.name} ${m.dosage}` : m.name));
+  const lines = [`Hi ${userName}, it's time to take ${list}.`];
+
+  const low = medications.filter(m => m.refill);
+  if (low.length > 0) {
+    const soonest = Math.min(...low.map(m => m.refill!.daysLeft));
+    const when = soonest <= 0 ? 'today' : soonest === 1 ? 'in about 1 day' : `in about ${soonest} days`;
+    lines.push(`You will run out of ${createList(low.map(m => m.name))} ${when}. Please arrange a refill.`);
+  }
+
+  lines.push('Reply YES once taken, or SNOOZE 10 to be reminded in 10 minutes.');
+  return lines.join(' ');
+}
+
+/**
+ * Parse a reply like "YES", "1", "taken!", "NOT TAKEN", "Snooze 10" or "snooze"
+ * Negative replies are checked first, so "not taken" never reads as TAKEN.
+ */
+function parseReply(body: string): SmsReply {
+  const text = body.trim().toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  // N0 (zero) is a common typo for NO
+  if (/^(NO|NOT|NOPE|N|N0|2)\b/.test(text)) {
+    return { action: 'not_taken' };
+  }
+
+  if (/^(YES|Y|1|TAKEN|TOOK|DONE)\b/.test(text)) {
+    return { action: 'taken' };
+  }
+
+  const snooze = text.match(/^SNOOZE ?(\d+)?/);
+  if (snooze) {
+    const minutes = snooze[1] ? parseInt(snooze[1], 10) : null;
+    if (minutes !== null && (minutes < 1 || minutes > MAX_SNOOZE_MINUTES)) {
+      return { action: 'unknown' };
+    }
+    return { action: 'snooze', minutes };
+  }
+
+  return { action: 'unknown' };
+}
+
+/**
+ * TwiML reply to an inbound message (always HTTP 200 unless rejected)
+ */
+function createMessageTwiML(message: string | null, status = 200): Response {
+  const body = message ? `\n  <Message>${escapeXML(message)}</Message>\n` : '';
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>\n<Response>${body}</Response>`, {
+    headers: { 'Content-Type': 'application/xml' },
+    status,
+  });
+}
+
+/**
+ * Create error response in JSON format for scheduler calls
+ */
+function createErrorJSON(message: string, status = 400): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    }
+  );
+}
+
+/**
+ * Service-role Supabase client (throws if not configured)
+ */
+function createServiceClient(): ReturnType<typeof createClient> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase credentials');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const flow = url.searchParams.get('flow') || 'send';
+  console.log('💬 Flow received:', flow);
+
+  try {
+    if (flow === 'inbound') {
+      return await handleInboundReply(req, url);
+    }
+
+    if (flow === 'status') {
+      return await handleDeliveryStatus(req, url);
+    }
+
+    return await handleSendReminder(req);
+  } catch (error) {
+    console.error('❌ CRITICAL: Top-level error in send-sms function:', {
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+      timestamp: new Date().toISOString()
+    });
+
+    if (flow === 'inbound') {
+      return createMessageTwiML('Sorry, something went wrong. Please open the app to record your medications.');
+    }
+    if (flow === 'status') {
+      return createMessageTwiML(null);
+    }
+    return createErrorJSON((error as Error).message || 'Internal server error', 500);
+  }
+});
+
+/**
+ * FLOW: Send a reminder (from schedule-batches)
+ * The sms_reminders row is written before the text goes out, so a quick
+ * reply always finds its doses.
+ */
+async function handleSendReminder(req: Request): Promise<Response> {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    console.warn('🛑 Rejected send request without the service role key');
+    return createErrorJSON('Unauthorized', 401);
+  }
+
+  const body = await req.json() as SmsRequestBody;
+  const medications = (body.medications || []).filter(m => m.id);
+
+  if (!body.userId || !body.phoneNumber || !body.doseDate || medications.length === 0) {
+    return createErrorJSON('userId, phoneNumber, doseDate and medications are required');
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: reminder, error: insertError } = await supabase
+    .from('sms_reminders')
+    .insert({
+      user_id: body.userId,
+      phone: body.phoneNumber,
+      dose_date: body.doseDate,
+      schedule_ids: medications.map(m => m.id),
+      log_ids: medications.map(m => m.logId).filter((id): id is string => !!id),
+      medication_names: medications.map(m => m.name),
+      delivery_status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  // No row = replies couldn't be matched, so don't send
+  if (insertError || !reminder) {
+    console.error('❌ Failed to record SMS reminder:', insertError?.message);
+    return createErrorJSON(`Failed to record reminder: ${insertError?.message}`, 500);
+  }
+
+  // CRITICAL: Use public URL, NOT request URL (which could be localhost)
+  const origin = Deno.env.get('SUPABASE_URL');
+  const statusCallback = origin ? `${origin}/functions/v1/send-sms?flow=status` : undefined;
+  const text = createReminderText(body.userName || 'there', medications);
+
+  console.log(`💬 Sending reminder ${reminder.id} for ${medications.length} medications`);
+  const result = await sendSms(body.phoneNumber, text, statusCallback);
+
+  const { error: updateError } = await supabase
+    .from('sms_reminders')
+    .update({
+      message_sid: result.messageSid || null,
+      delivery_status: result.success ? 'queued' : 'failed',
+      detail: result.error || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', reminder.id);
+
+  if (updateError) {
+    console.error('❌ Failed to record SMS outcome:', updateError.message);
+  }
+
+  if (!result.success) {
+    console.error('❌ SMS send failed:', result.error);
+    return createErrorJSON(result.error || 'Failed to send SMS', 502);
+  }
+
+  console.log(`✅ SMS queued: ${result.messageSid}`);
+  return new Response(
+    JSON.stringify({ success: true, messageSid: result.messageSid, medicationCount: medications.length }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    }
+  );
+}
+
+/**
+ * FLOW: Delivery status callback (queued -> sent -> delivered / undelivered / failed)
+ */
+async function handleDeliveryStatus(req: Request, url: URL): Promise<Response> {
+  const params = formDataToParams(await req.formData());
+
+  if (!(await isValidTwilioRequest(req, getPublicFunctionUrl('send-sms', url), params))) {
+    console.warn('🛑 Rejected status callback with an invalid Twilio signature');
+    return createMessageTwiML(null, 403);
+  }
+
+  const messageSid = params.MessageSid;
+  const status = params.MessageStatus;
+  if (!messageSid || !status) {
+    return createMessageTwiML(null);
+  }
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('sms_reminders')
+    .update({
+      delivery_status: status,
+      ...(params.ErrorCode ? { detail: `Twilio error ${params.ErrorCode}` } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('message_sid', messageSid);
+
+  if (error) {
+    console.error(`❌ Failed to record delivery status for ${messageSid}:`, error.message);
+  } else {
+    console.log(`📬 ${messageSid}: ${status}`);
+  }
+
+  return createMessageTwiML(null);
+}
+
+/**
+ * FLOW: Reply from the user
+ * Applies to the latest reminder sent to the number, only on the dose day it
+ * was sent for (after daily-rollover the doses have been archived).
+ */
+async function handleInboundReply(req: Request, url: URL): Promise<Response> {
+  const params = formDataToParams(await req.formData());
+
+  if (!(await isValidTwilioRequest(req, getPublicFunctionUrl('send-sms', url), params))) {
+    console.warn('🛑 Rejected inbound SMS with an invalid Twilio signature');
+    return createMessageTwiML(null, 403);
+  }
+
+  const from = params.From || '';
+  const reply = parseReply(params.Body || '');
+  console.log('💬 Reply received:', { from, body: params.Body, action: reply.action });
+
+  const supabase = createServiceClient();
+
+  const { data: reminder, error } = await supabase
+    .from('sms_reminders')
+    .select('id, user_id, dose_date, schedule_ids, log_ids, medication_names')
+    .eq('phone', from)
+    .neq('delivery_status', 'failed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to load reminder for reply:', error.message);
+    return createMessageTwiML('Sorry, something went wrong. Please open the app to record your medications.');
+  }
+
+  if (!reminder) {
+    console.log('💬 No reminder found for', from);
+    return createMessageTwiML('We have no medication reminder for this number.');
+  }
+
+  const { user_id: userId, schedule_ids: scheduleIds, log_ids: logIds, medication_names: names } = reminder as SmsReminderRow;
+  const list = createList(names);
+
+  const userTimezones = await loadUserTimezones(supabase, [userId]);
+  const today = getDoseDate(new Date(), getUserTimezone(userTimezones, userId), RESET_HOUR);
+  if (reminder.dose_date !== today) {
+    return createMessageTwiML('That reminder was for an earlier day. Please open the app to record it.');
+  }
+
+  let message: string;
+
+  if (reply.action === 'taken') {
+    await updateDoseStatusBatch(scheduleIds, logIds, 'taken', 'sms');
+    message = `Great job! ${list} marked as taken.`;
+  } else if (reply.action === 'snooze') {
+    const minutes = reply.minutes ??
+      getUserSnoozeMinutes(await loadUserSnoozeMinutes(supabase, [userId]), userId);
+    const snoozedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+    const { error: snoozeError } = await supabase
+      .from('medication_schedules')
+      .update({ snoozed_until: snoozedUntil })
+      .in('id', scheduleIds)
+      .eq('is_taken', false);
+
+    if (snoozeError) {
+      console.error('❌ Failed to snooze from SMS:', snoozeError.message);
+      return createMessageTwiML('Sorry, we could not snooze. Please open the app.');
+    }
+    message = `Okay, we'll remind you about ${list} in ${minutes} minutes.`;
+  } else if (reply.action === 'not_taken') {
+    message = `Okay, ${list} will stay pending. Reply YES once you've taken them.`;
+  } else {
+    message = `Reply YES (or 1, or TAKEN) once you've taken ${list}, or SNOOZE 10 to be reminded in 10 minutes.`;
+  }
+
+  const { error: replyError } = await supabase
+    .from('sms_reminders')
+    .update({
+      last_reply: params.Body || '',
+      replied_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', reminder.id);
+
+  if (replyError) {
+    console.error('❌ Failed to record reply:', replyError.message);
+  }
+
+  return createMessageTwiML(message);
+}
@@ -0,0 +1,35 @@
+-- Create medications table
+-- The original one-row-per-dose-time table the app and schedule-batches
+-- started from (split into medications + medication_schedules later, see
+-- split_medication_schedules). Kept as the first migration so a fresh
+-- database builds the whole series in order.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS medications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  dosage TEXT,
+  time TEXT NOT NULL,
+  is_taken BOOLEAN NOT NULL DEFAULT FALSE,
+  last_called_at TIMESTAMPTZ,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read and write their own medications
+CREATE POLICY "Users can manage own medications"
+  ON medications
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_medications_user ON medications(user_id);
+
+COMMENT ON TABLE medications IS 'Medications of each user';
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Create dose_events table for per-dose medication history
+-- One row per scheduled occurrence of a medication, so taking (or missing)
+-- today's dose no longer overwrites what happened on previous days.
+--
+-- dose_date is the "dose day" the occurrence belongs to. A dose day runs from
+-- RESET_HOUR (03:00) to RESET_HOUR the next morning, matching the app's
+-- isMedicationMissed() logic, so a 01:00 dose belongs to the previous date.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS dose_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dose_date DATE NOT NULL,
+  scheduled_time TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'taken', 'skipped', 'missed')),
+  taken_at TIMESTAMPTZ,
+  source TEXT NOT NULL DEFAULT 'app'
+    CHECK (source IN ('app', 'ivr', 'notification', 'system')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (medication_id, dose_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE dose_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read and write their own dose history
+-- (the scheduler and IVR use the service role and bypass RLS)
+CREATE POLICY "Users can manage own dose events"
+  ON dose_events
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Index for loading a user's doses for a given day / date range
+CREATE INDEX IF NOT EXISTS idx_dose_events_user_date ON dose_events(user_id, dose_date);
+
+-- Comment for documentation
+COMMENT ON TABLE dose_events IS 'Per-occurrence medication history (one row per medication per dose day)';
+COMMENT ON COLUMN dose_events.dose_date IS 'Dose day the occurrence belongs to (day boundary is RESET_HOUR, not midnight)';
+COMMENT ON COLUMN dose_events.scheduled_time IS 'Scheduled time (HH:MM) copied from the medication when the event was created';
+COMMENT ON COLUMN dose_events.status IS 'pending | taken | skipped | missed';
+COMMENT ON COLUMN dose_events.taken_at IS 'When the dose was confirmed as taken';
+COMMENT ON COLUMN dose_events.source IS 'Channel that last changed the status: app | ivr | notification | system';
+
+COMMIT;
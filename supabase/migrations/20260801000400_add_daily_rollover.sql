@@ -0,0 +1,32 @@
+-- Daily rollover support
+-- The daily-rollover edge function closes out each dose day at RESET_HOUR:
+-- it archives the outcome into dose_events, then resets is_taken,
+-- retry_count and last_called_at so the next day's anchors fire again.
+
+BEGIN;
+
+-- Dose day the medication's call/taken state was last reset for.
+-- NULL means the medication has never been through a rollover.
+ALTER TABLE medications ADD COLUMN IF NOT EXISTS last_reset_date DATE;
+
+-- Index for finding medications that still need today's rollover
+CREATE INDEX IF NOT EXISTS idx_medications_last_reset ON medications(last_reset_date);
+
+COMMENT ON COLUMN medications.last_reset_date IS 'Dose day (YYYY-MM-DD) whose rollover last reset is_taken/retry_count/last_called_at';
+
+-- Schedule the rollover every 15 minutes. It is idempotent (medications are
+-- only reset once per dose day), so a missed run is caught up by the next one.
+-- Replace <project-ref> and <service-role-key> before running.
+--
+-- SELECT cron.schedule(
+--   'daily-rollover-cron',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/daily-rollover',
+--     headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb
+--   );
+--   $$
+-- );
+
+COMMIT;
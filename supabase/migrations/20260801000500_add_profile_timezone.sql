@@ -0,0 +1,13 @@
+-- Per-user timezone
+-- Medication times are local "HH:MM" strings; the scheduler and daily
+-- rollover convert "now" into each user's timezone before comparing.
+-- Captured from the device on sign-in (see AuthContext).
+
+BEGIN;
+
+-- Existing users were all scheduled in Pakistan time, so default to it
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Karachi';
+
+COMMENT ON COLUMN profiles.timezone IS 'IANA timezone name (e.g. Asia/Karachi, America/New_York) reported by the device';
+
+COMMIT;
@@ -0,0 +1,96 @@
+-- Split medications from their schedule times
+-- Before: one independent medications row per dose time, so renaming or
+-- deleting a drug meant touching N unrelated rows.
+-- After:
+--   medications           - one row per medicine (name, dosage)
+--   medication_schedules  - one row per dose time, holding the per-time
+--                           call/taken state used by the scheduler
+--
+-- Existing rows are kept as schedules with the SAME id, so dose_events and
+-- any in-flight IVR callbacks (medicationIds) keep pointing at the right dose.
+-- Rows for the same user with the same (case-insensitive) name and dosage are
+-- folded into the oldest one as the parent medication; same-name rows with a
+-- different dosage (Aspirin 100 mg / 500 mg) stay separate medications.
+
+BEGIN;
+
+-- 1. Schedules table
+CREATE TABLE IF NOT EXISTS medication_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  time TEXT NOT NULL,
+  is_taken BOOLEAN NOT NULL DEFAULT FALSE,
+  last_called_at TIMESTAMPTZ,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  last_reset_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Pick the canonical (oldest) row for every user + name + dosage
+CREATE TEMP TABLE medication_fold ON COMMIT DROP AS
+SELECT
+  id AS old_id,
+  FIRST_VALUE(id) OVER (
+    PARTITION BY user_id, LOWER(TRIM(name)), LOWER(TRIM(COALESCE(dosage, '')))
+    ORDER BY created_at, id
+  ) AS parent_id
+FROM medications;
+
+-- 3. Every existing row becomes a schedule under its canonical parent
+INSERT INTO medication_schedules (id, medication_id, user_id, time, is_taken, last_called_at, retry_count, last_reset_date, created_at)
+SELECT m.id, f.parent_id, m.user_id, m.time, m.is_taken, m.last_called_at, COALESCE(m.retry_count, 0), m.last_reset_date, m.created_at
+FROM medications m
+JOIN medication_fold f ON f.old_id = m.id;
+
+-- 4. dose_events: old medication_id is now the schedule; point medication_id at the parent
+ALTER TABLE dose_events ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES medication_schedules(id) ON DELETE CASCADE;
+
+UPDATE dose_events SET schedule_id = medication_id WHERE schedule_id IS NULL;
+
+UPDATE dose_events e
+SET medication_id = f.parent_id
+FROM medication_fold f
+WHERE e.medication_id = f.old_id AND f.old_id <> f.parent_id;
+
+ALTER TABLE dose_events ALTER COLUMN schedule_id SET NOT NULL;
+ALTER TABLE dose_events DROP CONSTRAINT IF EXISTS dose_events_medication_id_dose_date_key;
+ALTER TABLE dose_events ADD CONSTRAINT dose_events_schedule_id_dose_date_key UNIQUE (schedule_id, dose_date);
+
+-- 5. Remove the folded duplicates (their schedules now hang off the parent)
+DELETE FROM medications m
+USING medication_fold f
+WHERE m.id = f.old_id AND f.old_id <> f.parent_id;
+
+-- 6. Per-time state now lives on medication_schedules
+DROP INDEX IF EXISTS idx_medications_last_reset;
+ALTER TABLE medications
+  DROP COLUMN IF EXISTS time,
+  DROP COLUMN IF EXISTS is_taken,
+  DROP COLUMN IF EXISTS last_called_at,
+  DROP COLUMN IF EXISTS retry_count,
+  DROP COLUMN IF EXISTS last_reset_date;
+
+-- 7. Row Level Security
+ALTER TABLE medication_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own medication schedules"
+  ON medication_schedules
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 8. Indexes for scheduler anchor/sweep queries and rollover
+CREATE INDEX IF NOT EXISTS idx_medication_schedules_medication ON medication_schedules(medication_id);
+CREATE INDEX IF NOT EXISTS idx_medication_schedules_anchor ON medication_schedules(time, is_taken) WHERE is_taken = false;
+CREATE INDEX IF NOT EXISTS idx_medication_schedules_sweep ON medication_schedules(user_id, time, is_taken) WHERE is_taken = false;
+CREATE INDEX IF NOT EXISTS idx_medication_schedules_last_reset ON medication_schedules(last_reset_date);
+
+COMMENT ON TABLE medication_schedules IS 'Dose times for a medication (one row per time of day)';
+COMMENT ON COLUMN medication_schedules.time IS 'Local dose time (HH:MM, 24-hour) in the owner''s profiles.timezone';
+COMMENT ON COLUMN medication_schedules.last_called_at IS 'Timestamp of last Twilio call for this dose';
+COMMENT ON COLUMN medication_schedules.retry_count IS 'Number of call attempts this dose day (2-Strike Rule)';
+COMMENT ON COLUMN medication_schedules.last_reset_date IS 'Dose day whose rollover last reset is_taken/retry_count/last_called_at';
+COMMENT ON COLUMN dose_events.schedule_id IS 'Schedule (dose time) this occurrence belongs to';
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Recurrence rules for medication schedules
+-- Until now every schedule time was implicitly daily. recurrence describes
+-- which dose days a time is due on (dates are dose days, YYYY-MM-DD):
+--   {"type": "daily"}
+--   {"type": "weekly",   "weekdays": [1, 3, 5]}                          -- 0 = Sunday
+--   {"type": "interval", "everyDays": 2, "startDate": "2025-01-01"}
+--   {"type": "cyclic",   "daysOn": 21, "daysOff": 7, "startDate": "2025-01-01"}
+--   {"type": "monthly",  "dayOfMonth": 15}                               -- last day in shorter months
+--
+-- Evaluated by schedule-batches (anchor + sweep), daily-rollover (no
+-- "missed" outcome on days off), the Home list and local alarms.
+
+BEGIN;
+
+ALTER TABLE medication_schedules
+  ADD COLUMN IF NOT EXISTS recurrence JSONB NOT NULL DEFAULT '{"type": "daily"}'::jsonb;
+
+ALTER TABLE medication_schedules
+  ADD CONSTRAINT medication_schedules_recurrence_type_check
+  CHECK (recurrence->>'type' IN ('daily', 'weekly', 'interval', 'cyclic', 'monthly'));
+
+COMMENT ON COLUMN medication_schedules.recurrence IS 'Which dose days this time is due on (daily, weekly, interval, cyclic, monthly)';
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Start and end dates for medication courses
+-- Antibiotic courses and short steroid bursts used to ring forever. A
+-- medication can now have an optional course window (dose days, inclusive):
+--   start_date  - first dose day (NULL = already started)
+--   end_date    - last dose day  (NULL = ongoing)
+-- schedule-batches and the Home screen ignore doses outside the window, and
+-- daily-rollover sets archived_at once the last dose day has closed.
+
+BEGIN;
+
+ALTER TABLE medications
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS end_date DATE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE medications
+  ADD CONSTRAINT medications_course_dates_check
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
+
+-- Index for the rollover's "finished courses" lookup
+CREATE INDEX IF NOT EXISTS idx_medications_course_end ON medications(end_date) WHERE archived_at IS NULL;
+
+COMMENT ON COLUMN medications.start_date IS 'First dose day of the course (NULL = no start restriction)';
+COMMENT ON COLUMN medications.end_date IS 'Last dose day of the course (NULL = ongoing)';
+COMMENT ON COLUMN medications.archived_at IS 'Set by daily-rollover when the course finished; archived medications are hidden and never called';
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Taper plans for medications whose dosage changes over time
+-- (e.g. prednisone 40mg for 5 days, then 30mg for 5 days, ...)
+--
+-- taper_plan is NULL for a fixed dose, otherwise:
+--   {"startDate": "2025-01-01", "steps": [{"dosage": "40mg", "days": 5}, {"dosage": "30mg", "days": 5}]}
+-- Before startDate and after the last step, medications.dosage applies.
+-- Resolved per dose day by the app (Home cards, local alarms) and by
+-- schedule-batches (IVR script).
+
+BEGIN;
+
+ALTER TABLE medications ADD COLUMN IF NOT EXISTS taper_plan JSONB;
+
+ALTER TABLE medications
+  ADD CONSTRAINT medications_taper_plan_check
+  CHECK (taper_plan IS NULL OR jsonb_typeof(taper_plan->'steps') = 'array');
+
+COMMENT ON COLUMN medications.taper_plan IS 'Dosage steps over time ({startDate, steps: [{dosage, days}]}); NULL = fixed dosage';
+
+COMMIT;
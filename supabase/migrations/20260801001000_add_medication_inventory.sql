@@ -0,0 +1,38 @@
+-- Pill inventory tracking with refill forecasts
+-- inventory_count is decremented by units_per_dose on every "taken" dose
+-- (app and IVR) and restored if a dose is un-marked. Days of supply are
+-- derived from the schedules; when they drop to refill_threshold_days the
+-- app raises a local refill reminder and, if refill_in_call is set, the next
+-- Twilio call mentions it once (refill_call_mentioned_at).
+
+BEGIN;
+
+ALTER TABLE medications
+  ADD COLUMN IF NOT EXISTS inventory_count NUMERIC CHECK (inventory_count IS NULL OR inventory_count >= 0),
+  ADD COLUMN IF NOT EXISTS units_per_dose NUMERIC NOT NULL DEFAULT 1 CHECK (units_per_dose > 0),
+  ADD COLUMN IF NOT EXISTS refill_threshold_days INTEGER NOT NULL DEFAULT 7 CHECK (refill_threshold_days >= 0),
+  ADD COLUMN IF NOT EXISTS refill_in_call BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS refill_call_mentioned_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN medications.inventory_count IS 'Units on hand (NULL = inventory not tracked)';
+COMMENT ON COLUMN medications.units_per_dose IS 'Units used by one dose (e.g. 2 tablets)';
+COMMENT ON COLUMN medications.refill_threshold_days IS 'Raise a refill reminder when days of supply drop to this value';
+COMMENT ON COLUMN medications.refill_in_call IS 'Mention the refill reminder in the next Twilio call';
+COMMENT ON COLUMN medications.refill_call_mentioned_at IS 'When a call last mentioned the refill; cleared on restock';
+
+-- Atomic inventory adjustment (negative delta = doses taken)
+-- Runs as the caller, so RLS still applies for app users; the service role
+-- (make-call) can adjust any row. Returns the new count, or NULL if the
+-- medication does not track inventory.
+CREATE OR REPLACE FUNCTION adjust_medication_inventory(p_medication_id UUID, p_delta NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  UPDATE medications
+  SET inventory_count = GREATEST(inventory_count + p_delta, 0)
+  WHERE id = p_medication_id AND inventory_count IS NOT NULL
+  RETURNING inventory_count;
+$$;
+
+COMMIT;
@@ -0,0 +1,98 @@
+-- Structured dosages
+-- medications.dosage used to be free text ("40mg", "2 tabs", "5 ml syrup").
+-- The amount, unit and form are now separate columns so the app, local
+-- alarms and the IVR can format them consistently (and say "40 milligrams"
+-- instead of reading out "40mg").
+--
+-- medications.dosage stays as display text: the app writes the formatted
+-- dosage on insert, and rows the parser below cannot understand keep their
+-- original text with NULL structured columns.
+--
+-- Taper steps change from {"dosage": "40mg", "days": 5} to
+-- {"amount": 40, "days": 5}; the unit and form are the medication's own.
+
+BEGIN;
+
+-- 1. Structured columns
+ALTER TABLE medications
+  ADD COLUMN IF NOT EXISTS dosage_amount NUMERIC CHECK (dosage_amount IS NULL OR dosage_amount > 0),
+  ADD COLUMN IF NOT EXISTS dosage_unit TEXT CHECK (dosage_unit IN ('mg', 'ml', 'IU', 'tablet', 'puff')),
+  ADD COLUMN IF NOT EXISTS dosage_form TEXT CHECK (dosage_form IN ('tablet', 'capsule', 'liquid', 'injection', 'inhaler'));
+
+ALTER TABLE medications
+  ADD CONSTRAINT medications_dosage_structured_check
+  CHECK ((dosage_amount IS NULL) = (dosage_unit IS NULL));
+
+-- 2. Best-effort parse of existing free text
+--    form: keyword anywhere in the text
+--    unit: mg / ml / IU next to a number, else puff or a countable form
+--    amount: first number, "half" = 0.5, otherwise 1 (e.g. "one tablet")
+CREATE TEMP TABLE dosage_parse ON COMMIT DROP AS
+SELECT
+  id,
+  LOWER(TRIM(dosage)) AS text,
+  CASE
+    WHEN LOWER(dosage) ~ '(capsule|\mcaps?\M)' THEN 'capsule'
+    WHEN LOWER(dosage) ~ '(tab|pill)' THEN 'tablet'
+    WHEN LOWER(dosage) ~ '(inhal|puff)' THEN 'inhaler'
+    WHEN LOWER(dosage) ~ '(inject|shot|syringe|insulin)' THEN 'injection'
+    WHEN LOWER(dosage) ~ '(liquid|syrup|drops?\M|solution|suspension)' THEN 'liquid'
+  END AS form
+FROM medications
+WHERE dosage_unit IS NULL AND dosage IS NOT NULL;
+
+ALTER TABLE dosage_parse ADD COLUMN unit TEXT, ADD COLUMN amount NUMERIC;
+
+UPDATE dosage_parse SET unit = CASE
+  WHEN text ~ '(\d|\s|^)(mg|milligrams?)\M' THEN 'mg'
+  WHEN text ~ '(\d|\s|^)(ml|millilit(er|re)s?|cc)\M' THEN 'ml'
+  WHEN text ~ '(\d|\s|^)(iu|units?)\M' THEN 'IU'
+  WHEN text ~ 'puff' OR form = 'inhaler' THEN 'puff'
+  WHEN form IN ('tablet', 'capsule') THEN 'tablet'
+END;
+
+UPDATE dosage_parse SET amount = CASE
+  WHEN text ~ '\d' THEN REPLACE(SUBSTRING(text FROM '\d+(?:[.,]\d+)?'), ',', '.')::NUMERIC
+  WHEN text ~ '\mhalf\M' THEN 0.5
+  ELSE 1
+END
+WHERE unit IS NOT NULL;
+
+UPDATE medications m
+SET dosage_amount = p.amount,
+    dosage_unit = p.unit,
+    dosage_form = p.form
+FROM dosage_parse p
+WHERE m.id = p.id AND p.unit IS NOT NULL AND p.amount > 0;
+
+-- 3. Taper steps: numeric amounts. Plans with a step that has no number,
+--    or on a medication whose dosage could not be parsed, are dropped
+--    (the regular dosage applies again).
+UPDATE medications
+SET taper_plan = CASE
+  WHEN dosage_unit IS NULL
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(taper_plan->'steps') step
+      WHERE COALESCE(step->>'dosage', '') !~ '\d'
+    )
+  THEN NULL
+  ELSE jsonb_set(taper_plan, '{steps}', (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'amount', REPLACE(SUBSTRING(step->>'dosage' FROM '\d+(?:[.,]\d+)?'), ',', '.')::NUMERIC,
+        'days', step->'days'
+      )
+      ORDER BY ordinality
+    )
+    FROM jsonb_array_elements(taper_plan->'steps') WITH ORDINALITY AS steps(step, ordinality)
+  ))
+END
+WHERE taper_plan IS NOT NULL;
+
+COMMENT ON COLUMN medications.dosage IS 'Display text for the dosage (original free text when dosage_* could not be parsed)';
+COMMENT ON COLUMN medications.dosage_amount IS 'Dosage amount in dosage_unit (NULL = legacy free-text dosage)';
+COMMENT ON COLUMN medications.dosage_unit IS 'mg, ml, IU, tablet or puff';
+COMMENT ON COLUMN medications.dosage_form IS 'tablet, capsule, liquid, injection or inhaler (NULL = unspecified)';
+COMMENT ON COLUMN medications.taper_plan IS 'Dosage amounts over time ({startDate, steps: [{amount, days}]}); NULL = fixed dosage';
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- Configurable snooze
+-- Replaces the fixed 15-minute call cooldown in schedule-batches with a
+-- per-dose snoozed_until timestamp:
+--   - the app's Snooze button (notification or alarm screen) sets it to
+--     now + the user's snooze length and moves the local alarm to match
+--   - schedule-batches sets it after every call, so the retry call is
+--     anchored at snoozed_until
+-- Cleared with the rest of the call state by daily-rollover.
+
+BEGIN;
+
+ALTER TABLE medication_schedules ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS snooze_minutes INTEGER NOT NULL DEFAULT 10
+  CHECK (snooze_minutes IN (5, 10, 15, 30));
+
+-- Doses already called today keep the old 15-minute cooldown
+UPDATE medication_schedules
+SET snoozed_until = last_called_at + INTERVAL '15 minutes'
+WHERE last_called_at IS NOT NULL AND is_taken = false AND snoozed_until IS NULL;
+
+-- Index for the scheduler's "snooze expired" anchor query
+CREATE INDEX IF NOT EXISTS idx_medication_schedules_snoozed ON medication_schedules(snoozed_until) WHERE is_taken = false;
+
+COMMENT ON COLUMN medication_schedules.snoozed_until IS 'Next call / alarm time for a snoozed dose this dose day (NULL = not snoozed)';
+COMMENT ON COLUMN profiles.snooze_minutes IS 'Snooze length chosen by the user (5, 10, 15 or 30 minutes)';
+
+COMMIT;
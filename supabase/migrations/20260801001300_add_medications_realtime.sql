@@ -0,0 +1,25 @@
+-- Realtime for medications
+-- The app subscribes to changes on the signed-in user's medications,
+-- medication_schedules and dose_events (features/medications/services/medicationsRealtime.ts),
+-- so doses marked taken by the IVR, snoozes set by schedule-batches and the
+-- daily rollover show up without restarting the app.
+--
+-- Realtime respects RLS: each user only receives their own rows.
+
+BEGIN;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['medications', 'medication_schedules', 'dose_events'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
+
+COMMIT;
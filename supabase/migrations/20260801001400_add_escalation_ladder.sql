@@ -0,0 +1,53 @@
+-- Escalation ladder
+-- Lets a user replace the fixed 2-strike call retry with their own ladder of
+-- steps after the dose time T, e.g. local alarm at T, call at T+10, second
+-- call at T+25, SMS to a caregiver at T+40 (see _shared/escalation.ts).
+--
+-- schedule-batches records every step it reaches in dose_escalations, one
+-- row per schedule per dose day per step. Once the dose is acknowledged
+-- through any channel (app, notification, IVR; taken or skipped) the
+-- remaining steps are recorded as cancelled and nothing else is sent.
+
+BEGIN;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS escalation_policy JSONB;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS caregiver_phone TEXT;
+
+CREATE TABLE IF NOT EXISTS dose_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES medication_schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dose_date DATE NOT NULL,
+  step_index INTEGER NOT NULL CHECK (step_index >= 0),
+  channel TEXT NOT NULL CHECK (channel IN ('local_alarm', 'call', 'caregiver_sms')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delegated', 'sent', 'failed', 'skipped', 'cancelled')),
+  detail TEXT,
+  external_id TEXT,
+  due_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (schedule_id, dose_date, step_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE dose_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own escalation history
+-- (only the scheduler writes, using the service role)
+CREATE POLICY "Users can view own dose escalations"
+  ON dose_escalations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_dose_escalations_user_date ON dose_escalations(user_id, dose_date);
+
+COMMENT ON COLUMN profiles.escalation_policy IS 'Escalation steps [{offset_minutes, channel}] after the dose time (NULL = 2-strike calls)';
+COMMENT ON COLUMN profiles.caregiver_phone IS 'E.164 number texted by caregiver_sms escalation steps';
+COMMENT ON TABLE dose_escalations IS 'Outcome of each escalation step reached for a dose (one row per schedule, dose day and step)';
+COMMENT ON COLUMN dose_escalations.status IS 'pending (claimed) | delegated (device alarm) | sent | failed | skipped | cancelled (dose acknowledged)';
+COMMENT ON COLUMN dose_escalations.detail IS 'Human-readable outcome, e.g. the Twilio error or why the step was skipped';
+COMMENT ON COLUMN dose_escalations.external_id IS 'Twilio call or message SID for call / caregiver_sms steps';
+COMMENT ON COLUMN dose_escalations.due_at IS 'Dose time plus the step offset';
+
+COMMIT;
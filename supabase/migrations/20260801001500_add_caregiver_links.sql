@@ -0,0 +1,239 @@
+-- Caregiver links
+-- Lets a patient (often an elderly parent) share their medications with a
+-- caregiver (often a grown-up child):
+--   1. the patient creates an invite; the database generates its code
+--   2. the caregiver enters the code in their own app (accept_caregiver_invite)
+--   3. the link grants what the patient allowed:
+--      can_view       - see medications, schedules and dose history
+--      can_edit       - add / edit / delete medications and record doses
+--      receive_alerts - be told about missed doses
+-- Either side can end the link by deleting it. The patient can change the
+-- permissions at any time; the caregiver cannot.
+-- Codes are 12 random characters, and wrong guesses are throttled per user
+-- (caregiver_invite_attempts), so they cannot be brute-forced.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Random invite code: 12 characters (60 bits) from a 32-letter alphabet
+-- without look-alikes (no I, O, 0, 1)
+CREATE OR REPLACE FUNCTION generate_caregiver_invite_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', get_byte(r.bytes, i) % 32 + 1, 1), '' ORDER BY i)
+  FROM extensions.gen_random_bytes(12) AS r(bytes), generate_series(0, 11) AS i;
+$$;
+
+CREATE TABLE IF NOT EXISTS caregiver_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  caregiver_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT generate_caregiver_invite_code(),
+  invite_expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  can_view BOOLEAN NOT NULL DEFAULT true,
+  can_edit BOOLEAN NOT NULL DEFAULT false,
+  receive_alerts BOOLEAN NOT NULL DEFAULT true,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (patient_id, caregiver_id),
+  CHECK (caregiver_id IS NULL OR caregiver_id <> patient_id),
+  CHECK (status = 'pending' OR caregiver_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_links_caregiver ON caregiver_links(caregiver_id) WHERE status = 'accepted';
+
+ALTER TABLE caregiver_links ENABLE ROW LEVEL SECURITY;
+
+-- Patients see, create, change and remove their own links. A new link is
+-- always a pending invite: only accept_caregiver_invite sets caregiver_id
+-- and status, so a patient can't link someone who never accepted.
+CREATE POLICY "Patients can view own caregiver links"
+  ON caregiver_links
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Patients can create caregiver invites"
+  ON caregiver_links
+  FOR INSERT
+  WITH CHECK (auth.uid() = patient_id AND status = 'pending' AND caregiver_id IS NULL AND accepted_at IS NULL);
+
+CREATE POLICY "Patients can update own caregiver links"
+  ON caregiver_links
+  FOR UPDATE
+  USING (auth.uid() = patient_id)
+  WITH CHECK (auth.uid() = patient_id);
+
+CREATE POLICY "Patients can remove own caregiver links"
+  ON caregiver_links
+  FOR DELETE
+  USING (auth.uid() = patient_id);
+
+-- App users may only write the permissions (the rest comes from defaults
+-- and accept_caregiver_invite)
+REVOKE INSERT, UPDATE ON caregiver_links FROM anon, authenticated;
+GRANT INSERT (patient_id, can_view, can_edit, receive_alerts) ON caregiver_links TO authenticated;
+GRANT UPDATE (can_view, can_edit, receive_alerts, updated_at) ON caregiver_links TO authenticated;
+
+-- Caregivers see their links and can leave them, but not change permissions
+CREATE POLICY "Caregivers can view their links"
+  ON caregiver_links
+  FOR SELECT
+  USING (auth.uid() = caregiver_id);
+
+CREATE POLICY "Caregivers can remove their links"
+  ON caregiver_links
+  FOR DELETE
+  USING (auth.uid() = caregiver_id);
+
+-- Failed accept_caregiver_invite calls, for throttling guesses
+-- Only written by accept_caregiver_invite; no policies, so app users can't
+-- read or clear it.
+CREATE TABLE IF NOT EXISTS caregiver_invite_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_invite_attempts_user ON caregiver_invite_attempts(user_id, attempted_at);
+
+ALTER TABLE caregiver_invite_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Does the signed-in user hold an accepted link to the patient with the
+-- permission ('view' | 'edit' | 'alerts')?
+-- SECURITY DEFINER so other tables' policies can read caregiver_links
+-- without recursing through its RLS.
+CREATE OR REPLACE FUNCTION has_caregiver_permission(p_patient_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM caregiver_links
+    WHERE patient_id = p_patient_id
+      AND caregiver_id = auth.uid()
+      AND status = 'accepted'
+      AND CASE p_permission
+        WHEN 'view' THEN can_view
+        WHEN 'edit' THEN can_edit
+        WHEN 'alerts' THEN receive_alerts
+        ELSE false
+      END
+  );
+$$;
+
+-- Accept an invite as the signed-in user
+-- The caregiver cannot see a pending link before accepting it, hence
+-- SECURITY DEFINER. Codes are single-use and expire; spaces, dashes and case
+-- in the entered code are ignored.
+-- An unknown or expired code returns NULL rather than raising, so the failed
+-- attempt is recorded instead of rolled back. After 5 failures in 15 minutes
+-- the user has to wait.
+CREATE OR REPLACE FUNCTION accept_caregiver_invite(p_invite_code TEXT)
+RETURNS caregiver_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link caregiver_links;
+  v_failures INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- One attempt at a time per user, so parallel calls can't beat the count
+  PERFORM pg_advisory_xact_lock(hashtext('accept_caregiver_invite:' || auth.uid()::text));
+
+  DELETE FROM caregiver_invite_attempts
+  WHERE user_id = auth.uid() AND attempted_at < NOW() - INTERVAL '1 day';
+
+  SELECT COUNT(*) INTO v_failures
+  FROM caregiver_invite_attempts
+  WHERE user_id = auth.uid() AND attempted_at > NOW() - INTERVAL '15 minutes';
+
+  IF v_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many invalid invite codes. Please try again in 15 minutes';
+  END IF;
+
+  UPDATE caregiver_links
+  SET caregiver_id = auth.uid(),
+      status = 'accepted',
+      accepted_at = NOW(),
+      updated_at = NOW()
+  WHERE invite_code = upper(regexp_replace(p_invite_code, '[^A-Za-z0-9]', '', 'g'))
+    AND status = 'pending'
+    AND invite_expires_at > NOW()
+    AND patient_id <> auth.uid()
+  RETURNING * INTO v_link;
+
+  IF v_link.id IS NULL THEN
+    INSERT INTO caregiver_invite_attempts (user_id) VALUES (auth.uid());
+    RETURN NULL;
+  END IF;
+
+  RETURN v_link;
+END;
+$$;
+
+-- Caregiver access to the patient's data (added to the existing owner policies)
+CREATE POLICY "Caregivers can view patient medications"
+  ON medications FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+CREATE POLICY "Caregivers can edit patient medications"
+  ON medications FOR ALL
+  USING (has_caregiver_permission(user_id, 'edit'))
+  WITH CHECK (has_caregiver_permission(user_id, 'edit'));
+
+CREATE POLICY "Caregivers can view patient medication schedules"
+  ON medication_schedules FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+CREATE POLICY "Caregivers can edit patient medication schedules"
+  ON medication_schedules FOR ALL
+  USING (has_caregiver_permission(user_id, 'edit'))
+  WITH CHECK (has_caregiver_permission(user_id, 'edit'));
+
+CREATE POLICY "Caregivers can view patient dose events"
+  ON dose_events FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+CREATE POLICY "Caregivers can record patient dose events"
+  ON dose_events FOR ALL
+  USING (has_caregiver_permission(user_id, 'edit'))
+  WITH CHECK (has_caregiver_permission(user_id, 'edit'));
+
+CREATE POLICY "Caregivers can view patient dose escalations"
+  ON dose_escalations FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+-- Names on both ends of a link
+CREATE POLICY "Caregivers can view patient profiles"
+  ON profiles FOR SELECT
+  USING (has_caregiver_permission(id, 'view'));
+
+CREATE POLICY "Patients can view their caregivers' profiles"
+  ON profiles FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM caregiver_links
+    WHERE patient_id = auth.uid() AND caregiver_id = profiles.id AND status = 'accepted'
+  ));
+
+COMMENT ON TABLE caregiver_links IS 'Patient -> caregiver sharing, created by invite code and accepted by the caregiver';
+COMMENT ON COLUMN caregiver_links.caregiver_id IS 'NULL until the invite is accepted';
+COMMENT ON COLUMN caregiver_links.invite_code IS 'Single-use code the caregiver enters to accept (12 characters)';
+COMMENT ON TABLE caregiver_invite_attempts IS 'Failed invite code entries, used to throttle guessing';
+COMMENT ON COLUMN caregiver_links.can_view IS 'Caregiver can see medications, schedules and dose history';
+COMMENT ON COLUMN caregiver_links.can_edit IS 'Caregiver can change medications and record doses';
+COMMENT ON COLUMN caregiver_links.receive_alerts IS 'Caregiver is notified about missed doses';
+
+COMMIT;
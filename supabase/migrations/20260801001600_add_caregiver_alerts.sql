@@ -0,0 +1,85 @@
+-- Caregiver missed-dose alerts
+-- When a dose reaches the 2-strike call limit, schedule-batches tells every
+-- caregiver linked with receive_alerts (see 20260801001500_add_caregiver_links.sql) which
+-- medications were missed, on the channel the caregiver chose:
+--   push - Expo push notification to the caregiver's app
+--   sms  - text message to the caregiver's phone
+--   call - voice call reading out the alert
+-- Each alert is recorded in caregiver_alerts; the caregiver acknowledges it
+-- in the app once they have followed up (acknowledge_caregiver_alert).
+
+BEGIN;
+
+ALTER TABLE medication_schedules ADD COLUMN IF NOT EXISTS caregiver_alerted_at TIMESTAMPTZ;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS caregiver_alert_channel TEXT NOT NULL DEFAULT 'push'
+  CHECK (caregiver_alert_channel IN ('push', 'sms', 'call'));
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS expo_push_token TEXT;
+
+CREATE TABLE IF NOT EXISTS caregiver_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  caregiver_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  patient_name TEXT NOT NULL,
+  dose_date DATE NOT NULL,
+  schedule_ids UUID[] NOT NULL,
+  medication_names TEXT[] NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('push', 'sms', 'call')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  detail TEXT,
+  external_id TEXT,
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_alerts_caregiver ON caregiver_alerts(caregiver_id) WHERE acknowledged_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE caregiver_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Caregivers see alerts sent to them, patients see alerts about them
+-- (only the scheduler writes, using the service role)
+CREATE POLICY "Caregivers and patients can view caregiver alerts"
+  ON caregiver_alerts
+  FOR SELECT
+  USING (auth.uid() = caregiver_id OR auth.uid() = patient_id);
+
+-- Mark an alert as followed up by the signed-in caregiver
+CREATE OR REPLACE FUNCTION acknowledge_caregiver_alert(p_alert_id UUID)
+RETURNS caregiver_alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert caregiver_alerts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE caregiver_alerts
+  SET acknowledged_at = COALESCE(acknowledged_at, NOW()),
+      updated_at = NOW()
+  WHERE id = p_alert_id
+    AND caregiver_id = auth.uid()
+  RETURNING * INTO v_alert;
+
+  IF v_alert.id IS NULL THEN
+    RAISE EXCEPTION 'Alert not found';
+  END IF;
+
+  RETURN v_alert;
+END;
+$$;
+
+COMMENT ON COLUMN medication_schedules.caregiver_alerted_at IS 'When caregivers were alerted about this dose being missed (reset daily)';
+COMMENT ON COLUMN profiles.caregiver_alert_channel IS 'How this user wants missed-dose alerts as a caregiver: push | sms | call';
+COMMENT ON COLUMN profiles.expo_push_token IS 'Expo push token of the user''s most recently signed-in device';
+COMMENT ON TABLE caregiver_alerts IS 'Missed-dose alerts sent to caregivers (one row per caregiver per alert)';
+COMMENT ON COLUMN caregiver_alerts.status IS 'pending (recorded, not yet sent) | sent | failed';
+COMMENT ON COLUMN caregiver_alerts.external_id IS 'Expo ticket id, or Twilio message / call SID';
+COMMENT ON COLUMN caregiver_alerts.acknowledged_at IS 'When the caregiver marked the alert as followed up';
+
+COMMIT;
@@ -0,0 +1,56 @@
+-- SMS reminders
+-- Lets users who can't take calls (e.g. at work) get their batched reminders
+-- as text messages instead (profiles.reminder_channel = 'sms'):
+--   - schedule-batches sends the batch to the send-sms function instead of
+--     make-call; the 2-strike rule and snooze apply to texts the same way
+--   - every text is recorded in sms_reminders with the doses it covers
+--   - replies (YES / 1 / TAKEN, NO / 2, SNOOZE 10) come back through the
+--     send-sms inbound webhook and update the doses of the latest reminder
+--     sent to that number; doses confirmed by SMS get dose_events.source = 'sms'
+
+BEGIN;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS reminder_channel TEXT NOT NULL DEFAULT 'call'
+  CHECK (reminder_channel IN ('call', 'sms'));
+
+ALTER TABLE dose_events DROP CONSTRAINT IF EXISTS dose_events_source_check;
+ALTER TABLE dose_events ADD CONSTRAINT dose_events_source_check
+  CHECK (source IN ('app', 'ivr', 'sms', 'notification', 'system'));
+
+CREATE TABLE IF NOT EXISTS sms_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  dose_date DATE NOT NULL,
+  schedule_ids UUID[] NOT NULL,
+  log_ids UUID[] NOT NULL DEFAULT '{}',
+  medication_names TEXT[] NOT NULL,
+  message_sid TEXT UNIQUE,
+  delivery_status TEXT NOT NULL DEFAULT 'pending',
+  detail TEXT,
+  last_reply TEXT,
+  replied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for matching a reply to the latest reminder sent to its number
+CREATE INDEX IF NOT EXISTS idx_sms_reminders_phone ON sms_reminders(phone, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE sms_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own reminders
+-- (only send-sms writes, using the service role)
+CREATE POLICY "Users can view own sms reminders"
+  ON sms_reminders
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN profiles.reminder_channel IS 'How server reminders reach the user: call (make-call) or sms (send-sms)';
+COMMENT ON TABLE sms_reminders IS 'Reminder texts sent by send-sms, with the doses each one covers';
+COMMENT ON COLUMN sms_reminders.log_ids IS 'dose_events ids for the dose day, updated when the user replies';
+COMMENT ON COLUMN sms_reminders.delivery_status IS 'pending (recorded, not sent) | Twilio status: queued, sent, delivered, undelivered, failed';
+COMMENT ON COLUMN sms_reminders.last_reply IS 'Text of the latest reply to this reminder';
+
+COMMIT;
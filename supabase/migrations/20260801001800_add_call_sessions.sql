@@ -0,0 +1,53 @@
+-- Call sessions
+-- make-call used to put the batch (medicationIds, logIds, medicationNames,
+-- userName) in the IVR callback URL: spoofable, broken by names containing
+-- commas, and visible in Twilio's request logs. Each outbound call now gets a
+-- call_sessions row keyed by a random token; the Gather callback carries only
+-- ?session=<token> and handleIVRResponse loads the batch from here.
+--
+-- A session answers once: after the user says yes / no (or gives no usable
+-- input twice) its state is final and replays of the callback change nothing.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS call_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_name TEXT NOT NULL,
+  schedule_ids UUID[] NOT NULL,
+  log_ids UUID[] NOT NULL DEFAULT '{}',
+  medication_names TEXT[] NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1 CHECK (attempt >= 1),
+  state TEXT NOT NULL DEFAULT 'calling'
+    CHECK (state IN ('calling', 'confirmed', 'declined', 'no_input', 'failed')),
+  gather_attempts INTEGER NOT NULL DEFAULT 0,
+  response TEXT,
+  call_sid TEXT,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '1 hour',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_user ON call_sessions(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE call_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own calls (only make-call writes, using the
+-- service role)
+CREATE POLICY "Users can view own call sessions"
+  ON call_sessions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE call_sessions IS 'Context of each outbound IVR call, looked up by the token in its Twilio callback';
+COMMENT ON COLUMN call_sessions.token IS 'Random, unguessable token carried by the IVR callback URL';
+COMMENT ON COLUMN call_sessions.user_id IS 'Patient called; every schedule and dose event in the session belongs to them';
+COMMENT ON COLUMN call_sessions.attempt IS 'Which call this is for the batch today (retry_count of its doses)';
+COMMENT ON COLUMN call_sessions.state IS 'calling | confirmed (said yes) | declined (said no) | no_input | failed (call not placed)';
+COMMENT ON COLUMN call_sessions.gather_attempts IS 'Unclear answers so far (the IVR asks again once)';
+COMMENT ON COLUMN call_sessions.response IS 'Digits pressed or speech heard for the final answer';
+COMMENT ON COLUMN call_sessions.expires_at IS 'Callbacks after this are ignored';
+
+COMMIT;
@@ -0,0 +1,80 @@
+-- Call attempts
+-- make-call now asks Twilio for status callbacks (and asynchronous answering
+-- machine detection) on every call and records the lifecycle of each call in
+-- call_attempts: queued / initiated -> ringing -> in-progress (answered) ->
+-- completed with its duration, or busy / no-answer / failed / canceled.
+--
+-- The 2-strike rule only counts real outcomes. schedule-batches still adds
+-- the strike BEFORE placing the call (circuit breaker), but a call that never
+-- reached the phone (Twilio could not create it, or it ended as failed /
+-- canceled) gives the strike back through refund_call_strike. Refunds are
+-- capped per dose per day (failed_dial_count) so a bad number can't retry
+-- forever; daily-rollover resets the cap.
+
+BEGIN;
+
+ALTER TABLE medication_schedules ADD COLUMN IF NOT EXISTS failed_dial_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS call_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES call_sessions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  call_sid TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'initiated', 'ringing', 'in-progress', 'completed', 'busy', 'no-answer', 'failed', 'canceled')),
+  answered_by TEXT,
+  duration_seconds INTEGER,
+  detail TEXT,
+  strike_refunded BOOLEAN NOT NULL DEFAULT false,
+  initiated_at TIMESTAMPTZ,
+  ringing_at TIMESTAMPTZ,
+  answered_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_attempts_user ON call_attempts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_call_attempts_session ON call_attempts(session_id);
+
+-- Enable Row Level Security
+ALTER TABLE call_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read their own call attempts (only make-call writes,
+-- using the service role)
+CREATE POLICY "Users can view own call attempts"
+  ON call_attempts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Give back the strike of a call that never reached the phone
+-- Only the called patient's doses still pending, with a strike to give back
+-- and refunds left today. Runs as the caller (make-call uses the service
+-- role). Returns the number of doses refunded.
+CREATE OR REPLACE FUNCTION refund_call_strike(p_user_id UUID, p_schedule_ids UUID[], p_max_refunds INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY INVOKER
+AS $$
+  WITH refunded AS (
+    UPDATE medication_schedules
+    SET retry_count = retry_count - 1,
+        failed_dial_count = failed_dial_count + 1
+    WHERE id = ANY(p_schedule_ids)
+      AND user_id = p_user_id
+      AND is_taken = false
+      AND retry_count > 0
+      AND failed_dial_count < p_max_refunds
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM refunded;
+$$;
+
+COMMENT ON COLUMN medication_schedules.failed_dial_count IS 'Strikes given back today for calls that never reached the phone (reset daily)';
+COMMENT ON TABLE call_attempts IS 'Lifecycle of each outbound Twilio call, from its status callbacks';
+COMMENT ON COLUMN call_attempts.status IS 'Latest Twilio CallStatus; a final status (completed, busy, no-answer, failed, canceled) is never overwritten';
+COMMENT ON COLUMN call_attempts.answered_by IS 'Answering machine detection: human | machine_start | fax | unknown';
+COMMENT ON COLUMN call_attempts.duration_seconds IS 'Call length reported when the call completed';
+COMMENT ON COLUMN call_attempts.strike_refunded IS 'The call failed to connect and its 2-strike retry was given back';
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Call history
+-- The app's Calls tab lists each reminder call (call_sessions) with its
+-- lifecycle (call_attempts). Patients could already read their own rows;
+-- caregivers with view access can now read the calls of the patients they
+-- follow too ("did the system call Mom this morning, and what did she say?").
+
+BEGIN;
+
+-- Policy: Caregivers can read the calls of patients they may view
+CREATE POLICY "Caregivers can view patient call sessions"
+  ON call_sessions
+  FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+CREATE POLICY "Caregivers can view patient call attempts"
+  ON call_attempts
+  FOR SELECT
+  USING (has_caregiver_permission(user_id, 'view'));
+
+COMMIT;
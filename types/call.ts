@@ -0,0 +1,26 @@
+/**
+ * Domain types for reminder call history
+ */
+
+/**
+ * What came of a reminder call, as shown in the call history
+ * taken / declined: answered and pressed 1 (yes) or 2 (no)
+ * no_response: answered, but gave no usable answer
+ * no_answer: rang out, busy, or reached voicemail
+ * failed: the call could not be placed or connected
+ * in_progress: still ringing or on the line
+ */
+export type CallOutcome = 'taken' | 'declined' | 'no_response' | 'no_answer' | 'failed' | 'in_progress';
+
+/**
+ * One reminder call (a call_sessions row and its Twilio lifecycle)
+ */
+export interface CallHistoryEntry {
+  id: string;
+  calledAt: string; // When the call was placed
+  medicationNames: string[]; // Medications in the batch
+  attempt: number; // 1st or 2nd call for the batch that day
+  outcome: CallOutcome;
+  durationSeconds: number | null; // Reported by Twilio once the call ends
+  detail: string | null; // Why the call failed, if it did
+}
@@ -0,0 +1,61 @@
+/**
+ * Domain types for caregiver links
+ */
+
+/**
+ * What a caregiver may do with the patient's medications
+ */
+export interface CaregiverPermissions {
+  canView: boolean; // See medications, schedules and dose history
+  canEdit: boolean; // Add / edit / delete medications and record doses
+  receiveAlerts: boolean; // Be told about missed doses
+}
+
+/**
+ * pending: invite created, waiting for the caregiver to enter the code
+ * accepted: caregiver linked
+ */
+export type CaregiverLinkStatus = 'pending' | 'accepted';
+
+/**
+ * A patient -> caregiver link, as seen by either side
+ */
+export interface CaregiverLink {
+  id: string;
+  patientId: string;
+  caregiverId: string | null; // null until the invite is accepted
+  patientName: string | null; // profiles.full_name, null if not visible / not set
+  caregiverName: string | null;
+  inviteCode: string;
+  inviteExpiresAt: string;
+  status: CaregiverLinkStatus;
+  permissions: CaregiverPermissions;
+  acceptedAt: string | null;
+}
+
+/**
+ * How a caregiver wants to hear about missed doses
+ */
+export type CaregiverAlertChannel = 'push' | 'sms' | 'call';
+
+/**
+ * pending: recorded, not yet sent
+ * sent / failed: outcome of the push, SMS or call
+ */
+export type CaregiverAlertStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * A missed-dose alert sent to a caregiver after the patient's reminder
+ * calls went unanswered
+ */
+export interface CaregiverAlert {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doseDate: string; // YYYY-MM-DD, the patient's dose day
+  medicationNames: string[];
+  channel: CaregiverAlertChannel;
+  status: CaregiverAlertStatus;
+  acknowledgedAt: string | null; // Set once the caregiver has followed up
+  createdAt: string;
+}
@@ -2,6 +2,21 @@
  * Central barrel export for all types
  */
 
-export type { Medication, MedicationDraft, TimePeriod, Greeting } from './medication';
-export type { MedicationNotificationData, NotificationSource, PendingNavigation } from './notifications';
-export type { MedicationRow, NewMedicationRow } from './supabase';
+export type { Medication, MedicationDraft, Dosage, DosageUnit, DosageForm, RecurrenceRule, TaperPlan, TaperStep, DoseStatus, DoseSource, DoseEvent, MedicationSyncStatus, MedicationMutation, TimePeriod, Greeting } from './medication';
+export type { CaregiverAlert, CaregiverAlertChannel, CaregiverAlertStatus, CaregiverLink, CaregiverLinkStatus, CaregiverPermissions } from './caregiver';
+export type { CallHistoryEntry, CallOutcome } from './call';
+export type { MedicationNotificationData, NotificationSource, PendingMedicationAction, PendingNavigation, ReminderChannel } from './notifications';
+export type {
+  MedicationRow,
+  NewMedicationRow,
+  MedicationScheduleRow,
+  NewMedicationScheduleRow,
+  MedicationWithSchedulesRow,
+  DoseEventRow,
+  NewDoseEventRow,
+  CaregiverLinkRow,
+  CaregiverAlertRow,
+  CallAttemptRow,
+  CallSessionRow,
+  CallSessionWithAttemptsRow,
+} from './supabase';
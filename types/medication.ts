@@ -2,22 +2,158 @@
  * Domain types for medications
  */
 
+/**
+ * One dose time of a medication, as shown in the daily schedule
+ * A medicine taken 3x a day appears as 3 entries sharing medicationId
+ */
 export interface Medication {
-  id: string;
+  id: string; // medication_schedules.id
+  medicationId: string; // medications.id (shared by all times of the same medicine)
   name: string;
-  dosage: string;
+  dosage: Dosage | null; // Regular dosage (see taperPlan for date-dependent dosage)
+  dosageText: string; // Display text; the original free text if it could not be parsed
   time: string; // HH:mm format
+  recurrence: RecurrenceRule;
+  taperPlan: TaperPlan | null;
+  startDate: string | null; // First dose day of the course (YYYY-MM-DD)
+  endDate: string | null; // Last dose day of the course, null = ongoing
+  inventoryCount: number | null; // Units on hand, null = not tracked
+  unitsPerDose: number;
+  refillThresholdDays: number; // Refill reminder when days of supply drop to this
+  refillInCall: boolean; // Also mention the refill in the next Twilio call
   isTaken: boolean;
+  snoozedUntil: string | null; // ISO time a snoozed dose rings / is called again
   user_id?: string;
   created_at?: string;
 }
 
 export interface MedicationDraft {
   name: string;
-  dosage: string;
+  dosage: Dosage;
   times: string[]; // Array of times for multiple doses per day
+  recurrence?: RecurrenceRule; // Applies to every time; defaults to every day
+  startDate?: string | null; // YYYY-MM-DD dose day, defaults to no restriction
+  endDate?: string | null; // YYYY-MM-DD dose day, null = ongoing
+  taperPlan?: TaperPlan | null;
+  inventoryCount?: number | null; // Units on hand, null = not tracked
+  unitsPerDose?: number; // Defaults to 1
+  refillThresholdDays?: number; // Defaults to DEFAULT_REFILL_THRESHOLD_DAYS
+  refillInCall?: boolean; // Defaults to true
+}
+
+/**
+ * Unit the dosage amount is measured in
+ * tablet and puff are countable (one unit = one pill / one inhalation)
+ */
+export type DosageUnit = 'mg' | 'ml' | 'IU' | 'tablet' | 'puff';
+
+/**
+ * Physical form of the medicine
+ */
+export type DosageForm = 'tablet' | 'capsule' | 'liquid' | 'injection' | 'inhaler';
+
+/**
+ * Structured dosage (e.g. 40 mg tablet, 5 ml liquid, 2 puffs)
+ * Stored as medications.dosage_amount / dosage_unit / dosage_form
+ */
+export interface Dosage {
+  amount: number;
+  unit: DosageUnit;
+  form: DosageForm | null;
+}
+
+/**
+ * Which dose days a schedule time is due on
+ * Stored as JSON on medication_schedules.recurrence
+ *
+ * - daily: every day
+ * - weekly: on the listed weekdays (0 = Sunday ... 6 = Saturday)
+ * - interval: every N days counting from startDate
+ * - cyclic: daysOn days in a row, then daysOff days off (e.g. 21-on/7-off)
+ * - monthly: on dayOfMonth (the last day in shorter months)
+ *
+ * Dates are dose days (YYYY-MM-DD), see getDoseDate()
+ */
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'interval'; everyDays: number; startDate: string }
+  | { type: 'cyclic'; daysOn: number; daysOff: number; startDate: string }
+  | { type: 'monthly'; dayOfMonth: number };
+
+/**
+ * One step of a taper plan: dosage amount held for a number of dose days
+ * The unit and form are the medication's own (see Dosage)
+ */
+export interface TaperStep {
+  amount: number;
+  days: number;
 }
 
+/**
+ * Dosage that changes over time (e.g. 40 mg for 5 days, then 30 mg for 5 days)
+ * Stored as JSON on medications.taper_plan. Before startDate and after the
+ * last step, the medication's regular dosage applies.
+ */
+export interface TaperPlan {
+  startDate: string; // YYYY-MM-DD dose day of the first step
+  steps: TaperStep[];
+}
+
+/**
+ * Status of a single scheduled dose (one row in dose_events)
+ */
+export type DoseStatus = 'pending' | 'taken' | 'skipped' | 'missed';
+
+/**
+ * Channel that recorded a dose status change
+ */
+export type DoseSource = 'app' | 'ivr' | 'sms' | 'notification' | 'system';
+
+export interface DoseEvent {
+  id: string;
+  medicationId: string;
+  scheduleId: string;
+  doseDate: string; // YYYY-MM-DD dose day
+  scheduledTime: string; // HH:mm format
+  status: DoseStatus;
+  takenAt: string | null;
+  source: DoseSource;
+}
+
+/**
+ * Sync state of the locally cached medications (shown on Home)
+ * - synced: cache matches the server
+ * - syncing: replaying queued changes / reloading
+ * - pending: queued changes not sent yet
+ * - offline: the server could not be reached; showing cached data
+ */
+export type MedicationSyncStatus = 'synced' | 'syncing' | 'pending' | 'offline';
+
+/**
+ * Change made while offline, kept in the outbox (lib/medicationOutbox.ts)
+ * until it can be replayed. createdAt is when the user made it (ms).
+ */
+export type MedicationMutation =
+  | {
+      id: string;
+      type: 'add';
+      createdAt: number;
+      medicationId: string; // Final medication id, chosen when queued
+      scheduleIds: string[]; // Final schedule id per draft time (same order)
+      userId: string;
+      draft: MedicationDraft;
+    }
+  | {
+      id: string;
+      type: 'toggle';
+      createdAt: number;
+      schedule: Pick<Medication, 'id' | 'medicationId' | 'time' | 'user_id' | 'unitsPerDose'>;
+      isTaken: boolean;
+      doseDate: string; // YYYY-MM-DD dose day the toggle was made on
+    }
+  | { id: string; type: 'delete'; createdAt: number; medicationId: string };
+
 export type TimePeriod = 'Morning' | 'Afternoon' | 'Evening';
 
 export interface Greeting {
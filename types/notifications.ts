@@ -10,7 +10,23 @@ export interface MedicationNotificationData {
 
 export type NotificationSource = 'background_tap' | 'cold_start' | 'foreground_auto';
 
+/**
+ * How server-side reminders reach the user (profiles.reminder_channel):
+ * a phone call (make-call) or a text message (send-sms)
+ */
+export type ReminderChannel = 'call' | 'sms';
+
 export interface PendingNavigation {
   data: MedicationNotificationData;
   source: NotificationSource;
 }
+
+/**
+ * Notification button press captured while the app was not running
+ * (see lib/pendingMedicationActions.ts)
+ */
+export interface PendingMedicationAction {
+  action: 'take' | 'snooze';
+  medicationId: string; // medication_schedules.id
+  timestamp: number; // When the button was pressed (ms)
+}
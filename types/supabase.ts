@@ -3,20 +3,166 @@
  * These match the snake_case columns in the database
  */
 
+import type { CaregiverAlertChannel, CaregiverAlertStatus, CaregiverLinkStatus } from './caregiver';
+import type { DosageForm, DosageUnit, DoseSource, DoseStatus, RecurrenceRule, TaperPlan } from './medication';
+
 export interface MedicationRow {
   id: string;
   name: string;
-  dosage: string;
-  time: string;
-  is_taken: boolean;
+  dosage: string; // Display text (legacy free text for rows the migration could not parse)
+  dosage_amount: number | null;
+  dosage_unit: DosageUnit | null;
+  dosage_form: DosageForm | null;
   user_id: string;
+  start_date: string | null;
+  end_date: string | null;
+  taper_plan: TaperPlan | null;
+  inventory_count: number | null;
+  units_per_dose: number;
+  refill_threshold_days: number;
+  refill_in_call: boolean;
+  refill_call_mentioned_at: string | null;
+  archived_at: string | null;
   created_at?: string;
 }
 
 export interface NewMedicationRow {
+  id?: string; // Set for medications added offline (client-generated)
   name: string;
   dosage: string;
+  dosage_amount: number;
+  dosage_unit: DosageUnit;
+  dosage_form: DosageForm | null;
+  user_id: string;
+  start_date: string | null;
+  end_date: string | null;
+  taper_plan: TaperPlan | null;
+  inventory_count: number | null;
+  units_per_dose: number;
+  refill_threshold_days: number;
+  refill_in_call: boolean;
+}
+
+export interface MedicationScheduleRow {
+  id: string;
+  medication_id: string;
+  user_id: string;
   time: string;
+  recurrence: RecurrenceRule;
   is_taken: boolean;
+  snoozed_until: string | null;
+  created_at?: string;
+}
+
+export interface NewMedicationScheduleRow {
+  id?: string; // Set for medications added offline (client-generated)
+  medication_id: string;
+  user_id: string;
+  time: string;
+  recurrence: RecurrenceRule;
+  is_taken: boolean;
+}
+
+/**
+ * medications row with its schedules embedded
+ * (select('*, medication_schedules(*)'))
+ */
+export interface MedicationWithSchedulesRow extends MedicationRow {
+  medication_schedules: MedicationScheduleRow[];
+}
+
+export interface DoseEventRow {
+  id: string;
+  medication_id: string;
+  schedule_id: string;
+  user_id: string;
+  dose_date: string; // YYYY-MM-DD dose day
+  scheduled_time: string;
+  status: DoseStatus;
+  taken_at: string | null;
+  source: DoseSource;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface NewDoseEventRow {
+  medication_id: string;
+  schedule_id: string;
   user_id: string;
+  dose_date: string;
+  scheduled_time: string;
+  status: DoseStatus;
+  taken_at: string | null;
+  source: DoseSource;
+  updated_at?: string;
+}
+
+export interface CaregiverLinkRow {
+  id: string;
+  patient_id: string;
+  caregiver_id: string | null;
+  invite_code: string;
+  invite_expires_at: string;
+  status: CaregiverLinkStatus;
+  can_view: boolean;
+  can_edit: boolean;
+  receive_alerts: boolean;
+  accepted_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CaregiverAlertRow {
+  id: string;
+  patient_id: string;
+  caregiver_id: string;
+  patient_name: string;
+  dose_date: string;
+  schedule_ids: string[];
+  medication_names: string[];
+  channel: CaregiverAlertChannel;
+  status: CaregiverAlertStatus;
+  detail: string | null;
+  external_id: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CallAttemptRow {
+  id: string;
+  session_id: string;
+  user_id: string | null;
+  call_sid: string | null;
+  status: 'queued' | 'initiated' | 'ringing' | 'in-progress' | 'completed' | 'busy' | 'no-answer' | 'failed' | 'canceled';
+  answered_by: string | null; // Answering machine detection: human | machine_start | fax | unknown
+  duration_seconds: number | null;
+  detail: string | null;
+  strike_refunded: boolean;
+  initiated_at: string | null;
+  ringing_at: string | null;
+  answered_at: string | null;
+  ended_at: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CallSessionRow {
+  id: string;
+  user_id: string;
+  user_name: string;
+  schedule_ids: string[];
+  medication_names: string[];
+  attempt: number;
+  state: 'calling' | 'confirmed' | 'declined' | 'no_input' | 'failed';
+  gather_attempts: number;
+  response: string | null;
+  call_sid: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Session with its attempts embedded (select('*, call_attempts(*)'))
+export interface CallSessionWithAttemptsRow extends CallSessionRow {
+  call_attempts: CallAttemptRow[];
 }